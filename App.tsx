@@ -1,10 +1,56 @@
-import React, { useState, useMemo } from 'react';
-import { BrainCircuit, Sparkles, AlertTriangle, TrendingUp, TrendingDown, Minus, ArrowRight, Filter, Calendar, DollarSign, FileText } from 'lucide-react';
-import { parseCSV } from './services/csvService';
-import { getForecast } from './services/geminiService';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { BrainCircuit, Sparkles, AlertTriangle, RotateCw, Database, TrendingUp, TrendingDown, Minus, ArrowRight, Filter, Calendar, DollarSign, FileText, Cpu } from 'lucide-react';
+import { parseCSV, previewCSV, detectColumnMapping } from './services/csvService';
+import { loadSavedMapping, saveMapping } from './services/mappingStore';
+import { FORECAST_PROVIDERS, LLM_PROVIDERS, getForecastProvider, getDefaultEngine, forecastWithFallback } from './services/forecastProviders';
+import { FORECAST_METHOD_LABELS } from './services/statisticalService';
+import { isAbortError } from './services/requestRetry';
+import { forecastCacheKey, getCachedForecast, putCachedForecast } from './services/forecastCache';
+import { getRunStore } from './services/runStore';
+import { trackForecastAccuracy, isSameSegment } from './services/forecastTrackingService';
+import { forecastToCSV, forecastToXLSX, downloadBlob, exportBaseName } from './services/exportService';
+import { printForecastReport } from './services/reportService';
+import { parseUrlState, syncUrlState, clearUrlState } from './services/urlState';
+import { forecastAllSegments } from './services/batchForecastService';
+import { hasDueDates } from './services/agingService';
+import { hasQualityIssues } from './services/dataQualityService';
+import { GAP_POLICIES, GAP_POLICY_LABELS } from './services/gapFillService';
+import { stlDecompose, seasonalStrength, describeSeasonalStrength, canEstimateSeasonality } from './services/decompositionService';
+import { applyScenario, mergeSharedScenarios, SCENARIO_COLORS } from './services/scenarioService';
+import { loadScenarios, saveScenarios } from './services/scenarioStore';
+import { cleanSeries, applyOutlierAdjustments, DEFAULT_OUTLIER_METHOD, OUTLIER_METHOD_LABELS } from './services/outlierService';
+import { regroupDataset, datasetFromRun, isSameGrouping, describeSegmentKey, describeFilters } from './services/segmentService';
+import { DEFAULT_FORECAST_OPTIONS, MIN_HORIZON, MAX_HORIZON, normalizeForecastOptions } from './services/forecastOptions';
 import { FileUpload } from './components/FileUpload';
 import { ForecastChart } from './components/ForecastChart';
-import { MonthlyData, ForecastResult, AppState, ChartDataPoint, ParsedDataSet } from './types';
+import { BacktestPanel } from './components/BacktestPanel';
+import { SegmentComparisonTable } from './components/SegmentComparisonTable';
+import { ReconciliationPanel } from './components/ReconciliationPanel';
+import { SegmentationControls } from './components/SegmentationControls';
+import { AgingPanel } from './components/AgingPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { OutlierPanel } from './components/OutlierPanel';
+import { DecompositionPanel } from './components/DecompositionPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { RunHistoryPanel } from './components/RunHistoryPanel';
+import { ForecastTrackingPanel } from './components/ForecastTrackingPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { MonthlyData, ForecastResult, AppState, ChartDataPoint, ParsedDataSet, ForecastEngine, ForecastMethod, ForecastOptions, SegmentForecastSummary, BatchProgress, SegmentDimension, DimensionFilters, ParseProgress, CSVPreview, ColumnMapping, GapPolicy, OutlierMethod, OutlierFlag, OutlierDecisions, Scenario, ForecastPoint, RetryState, ForecastRequestControl, NewForecastRun, SegmentForecastRun, SegmentExport, ExportFormat, DashboardUrlState } from './types';
+
+// Everything that influences a forecast run besides the data itself
+interface AnalysisSettings {
+  engine: ForecastEngine;
+  method: ForecastMethod;
+  options: ForecastOptions;
+  outlierMethod: OutlierMethod;
+  forceRefresh?: boolean; // Skip the forecast cache and ask the provider again
+}
+
+const HORIZON_CHOICES = Array.from({ length: MAX_HORIZON - MIN_HORIZON + 1 }, (_, i) => MIN_HORIZON + i);
+const HISTORY_WINDOW_CHOICES = [12, 24, 36, 48, 60, 120];
+const MIN_HISTORY_CHOICES = [3, 6, 12, 24];
+const OUTLIER_METHODS = Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[];
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -12,25 +58,109 @@ const App: React.FC = () => {
   // Data State
   const [fullDataset, setFullDataset] = useState<ParsedDataSet | null>(null);
   const [selectedClass, setSelectedClass] = useState<string>('ALL');
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+
+  // Column Mapping State (between upload and parsing)
+  const [pendingUpload, setPendingUpload] = useState<{
+    file: File;
+    preview: CSVPreview;
+    mapping: ColumnMapping;
+    isRemembered: boolean;
+  } | null>(null);
+
+  // Engine State (falls back to the offline engine when no AI provider is configured)
+  const [engine, setEngine] = useState<ForecastEngine>(getDefaultEngine);
+  const [method, setMethod] = useState<ForecastMethod>('auto');
+  const [forecastOptions, setForecastOptions] = useState<ForecastOptions>(DEFAULT_FORECAST_OPTIONS);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>(DEFAULT_OUTLIER_METHOD);
   
   // Visualization State
-  const [currentHistory, setCurrentHistory] = useState<MonthlyData[]>([]);
+  const [currentHistory, setCurrentHistory] = useState<MonthlyData[]>([]); // As uploaded (before outlier adjustment)
+  const [outliers, setOutliers] = useState<OutlierFlag[]>([]);
+  const [outlierDecisions, setOutlierDecisions] = useState<OutlierDecisions>({});
   const [forecastResult, setForecastResult] = useState<ForecastResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [retryState, setRetryState] = useState<RetryState | null>(null);
+
+  // In-flight single-segment forecast; aborted when a newer one starts
+  const forecastRequest = useRef<AbortController | null>(null);
+  const batchRequest = useRef<AbortController | null>(null); // "Forecast All Segments" in flight
+
+  // Chart container, read when the printable report copies the chart SVG
+  const chartRef = useRef<HTMLDivElement>(null);
 
-  // Triggered when file is uploaded
+  // Persisted copy of the current upload; runs reference it by id once the save resolves
+  const storedDataset = useRef<{ id: Promise<string | null>; fileName: string } | null>(null);
+  const [datasetId, setDatasetId] = useState<string | null>(null); // Resolved id, for shareable links
+  const [openRunId, setOpenRunId] = useState<string | null>(null); // Saved run on screen, until anything is re-forecast
+
+  // Batch (All Segments) State
+  const [batchResults, setBatchResults] = useState<SegmentForecastSummary[]>([]);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [batchTotal, setBatchTotal] = useState<ForecastResult | null>(null); // Total Portfolio forecast for reconciliation
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+
+  // What-if Scenarios (kept across uploads)
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+
+  // Also cancels a running batch: its results would belong to settings no longer on screen
+  const clearBatch = () => {
+    batchRequest.current?.abort();
+    batchRequest.current = null;
+    setIsBatchRunning(false);
+    setBatchResults([]);
+    setBatchProgress(null);
+    setBatchTotal(null);
+  };
+
+  // Triggered when file is uploaded: preview the first rows for column mapping
   const handleFileSelect = async (file: File) => {
     try {
+      setError(null);
+      const preview = await previewCSV(file);
+      const saved = loadSavedMapping(preview.signature);
+      setPendingUpload({
+        file,
+        preview,
+        mapping: saved ?? detectColumnMapping(preview.headers),
+        isRemembered: saved !== null,
+      });
+      setAppState(AppState.MAPPING);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Triggered when the column mapping is confirmed
+  const handleMappingConfirm = async (mapping: ColumnMapping) => {
+    if (!pendingUpload) return;
+    const { file, preview } = pendingUpload;
+    try {
+      saveMapping(preview.signature, mapping);
+      setPendingUpload(null);
       setAppState(AppState.PARSING);
       setError(null);
       setSelectedClass('ALL'); // Reset filter
+      clearBatch();
+      setParseProgress(null);
       
-      // 1. Parse CSV with Aggregation
-      const dataset = await parseCSV(file);
+      // 1. Parse CSV with Aggregation (streamed in a Web Worker)
+      const dataset = await parseCSV(file, setParseProgress, mapping);
       setFullDataset(dataset);
-      
+      setFileName(file.name);
+      persistDataset(dataset, file.name);
+
+      // 2. Let the user review skipped rows and gaps before forecasting
+      if (hasQualityIssues(dataset.quality)) {
+        setAppState(AppState.REVIEW);
+        return;
+      }
+
       // Initial Analysis for TOTAL
-      analyzeData(dataset.totalByDate, 'Total Portfolio');
+      analyzeData(dataset.totalByDate, 'ALL', dataset);
 
     } catch (err: any) {
       console.error(err);
@@ -39,37 +169,265 @@ const App: React.FC = () => {
     }
   };
 
+  // Series the forecasters see: outliers replaced as decided
+  const cleanedHistory = useMemo(
+    () => applyOutlierAdjustments(currentHistory, outliers, outlierDecisions),
+    [currentHistory, outliers, outlierDecisions]
+  );
+
+  // Forecasts saved from earlier uploads of this segment, scored against this upload's actuals
+  const [segmentRuns, setSegmentRuns] = useState<SegmentForecastRun[]>([]);
+  useEffect(() => {
+    setSegmentRuns([]);
+    if (!fullDataset) return;
+    // Only runs forecasting into months this upload has real data for can be scored
+    const actuals = (selectedClass === 'ALL' ? fullDataset.totalByDate : fullDataset.byClass[selectedClass] || [])
+      .filter(item => !item.filled && !item.missing);
+    if (actuals.length === 0) return;
+    let cancelled = false;
+    getRunStore()
+      .listSegmentRuns(selectedClass, { from: actuals[0].date, to: actuals[actuals.length - 1].date }, 100)
+      .then(runs => {
+        if (!cancelled) setSegmentRuns(runs.filter(run => isSameSegment(run, selectedClass, fullDataset.segmentBy, fullDataset.filters)));
+      })
+      .catch(err => console.error("Run Store Error:", err));
+    return () => { cancelled = true; };
+  }, [fullDataset, selectedClass]);
+
+  const forecastAccuracy = useMemo(() => {
+    if (!fullDataset) return [];
+    const actuals = selectedClass === 'ALL' ? fullDataset.totalByDate : fullDataset.byClass[selectedClass] || [];
+    return trackForecastAccuracy(segmentRuns, actuals);
+  }, [fullDataset, selectedClass, segmentRuns]);
+
+  // Per-segment forecasts from the batch run, used for per-class scenario overrides on the total
+  const scenarioSeries = useMemo(() => {
+    if (!forecastResult) return [];
+    const classForecasts: Record<string, ForecastPoint[]> = {};
+    batchResults.forEach(r => { if (r.result) classForecasts[r.segment] = r.result.forecast; });
+    return scenarios.map(scenario => applyScenario(forecastResult.forecast, scenario, selectedClass, classForecasts));
+  }, [forecastResult, scenarios, selectedClass, batchResults]);
+
+  const handleScenariosChange = (next: Scenario[]) => {
+    setScenarios(next);
+    saveScenarios(next);
+  };
+
+  // Backs the seasonality badge with the data instead of asserting it; measured on the
+  // actuals as uploaded so outlier adjustments can't hide (or invent) a seasonal pattern
+  const historyStrength = useMemo(() => {
+    if (!canEstimateSeasonality(currentHistory.length)) return null;
+    return seasonalStrength(stlDecompose(currentHistory.map(item => item.amount)));
+  }, [currentHistory]);
+
+  const isForecasting = appState === AppState.ANALYZING || appState === AppState.RETRYING;
+
+  // The insight comes from the statistical engine when the AI answer had to be replaced
+  const isAIForecast = engine !== 'statistical' && !forecastResult?.fallback;
+
+  // Persistence is best-effort: a failed save is logged and never blocks the forecast
+  const persistDataset = (dataset: ParsedDataSet, name: string) => {
+    const { dimensions, dimensionValues, facts, quality } = dataset;
+    const id = getRunStore()
+      .saveDataset({ fileName: name, dimensions, dimensionValues, facts, quality })
+      .catch(err => {
+        console.error("Run Store Error:", err);
+        return null;
+      });
+    storedDataset.current = { id, fileName: name };
+    setDatasetId(null);
+    id.then(value => {
+      // A newer upload may have replaced this one while saving
+      if (storedDataset.current?.id === id) setDatasetId(value);
+    });
+  };
+
+  const describeRun = (
+    segment: string,
+    segmentName: string,
+    dataset: ParsedDataSet,
+    settings: AnalysisSettings,
+    history: MonthlyData[],
+    decisions: OutlierDecisions,
+    result: ForecastResult
+  ): Omit<NewForecastRun, 'datasetId' | 'fileName'> => ({
+    segment,
+    segmentName,
+    segmentBy: dataset.segmentBy,
+    filters: dataset.filters,
+    gapPolicy: dataset.gapPolicy,
+    engine: settings.engine,
+    model: getForecastProvider(settings.engine).model,
+    method: settings.method,
+    options: settings.options,
+    outlierMethod: settings.outlierMethod,
+    outlierDecisions: decisions,
+    history,
+    result,
+  });
+
+  const persistRuns = async (runs: Omit<NewForecastRun, 'datasetId' | 'fileName'>[]) => {
+    const stored = storedDataset.current;
+    // Results served from the cache were stored when first computed
+    const fresh = runs.filter(run => !run.result.cachedAt);
+    if (!stored || fresh.length === 0) return;
+    try {
+      const datasetId = await stored.id;
+      await getRunStore().saveRuns(fresh.map(run => ({ ...run, datasetId, fileName: stored.fileName })));
+    } catch (err) {
+      console.error("Run Store Error:", err);
+    }
+  };
+
+  // AI forecasts are cached per data fingerprint; the statistical engine is cheap and deterministic already
+  const runForecast = async (data: MonthlyData[], segmentName: string, settings: AnalysisSettings, control: ForecastRequestControl = {}) => {
+    const provider = getForecastProvider(settings.engine);
+    const cacheKey = provider.kind === 'llm'
+      ? await forecastCacheKey({ history: data, segmentName, options: settings.options, provider: provider.id, model: provider.model })
+      : null;
+
+    if (cacheKey && !settings.forceRefresh) {
+      const cached = await getCachedForecast(cacheKey);
+      if (cached) return cached;
+    }
+
+    const result = await forecastWithFallback(settings.engine, data, segmentName, settings.options, settings.method, control);
+    // A fallback means the provider failed; ask it again next time
+    if (cacheKey && !result.fallback) await putCachedForecast(cacheKey, result);
+    return result;
+  };
+
   // Triggered when dropdown changes or initial load
-  const analyzeData = async (data: MonthlyData[], segmentName: string) => {
+  const analyzeData = async (
+    data: MonthlyData[],
+    segment: string,
+    dataset: ParsedDataSet,
+    overrides: Partial<AnalysisSettings> = {},
+    decisions: OutlierDecisions = {}
+  ) => {
+    const settings: AnalysisSettings = { engine, method, options: forecastOptions, outlierMethod, ...overrides };
+    const segmentName = getSegmentName(segment, dataset);
+
+    // Supersede any forecast still in flight so a slower, older response can't overwrite this one
+    forecastRequest.current?.abort();
+    const controller = new AbortController();
+    forecastRequest.current = controller;
+    setOpenRunId(null);
+
     try {
+        const { outliers: flagged, cleaned } = cleanSeries(data, settings.outlierMethod, decisions);
         setCurrentHistory(data);
+        setOutliers(flagged);
+        setOutlierDecisions(decisions);
+        setRetryState(null);
         setAppState(AppState.ANALYZING);
         setForecastResult(null); // Clear old forecast while loading
 
-        const forecast = await getForecast(data, segmentName);
-        
+        const forecast = await runForecast(cleaned, segmentName, settings, {
+            signal: controller.signal,
+            onRetry: state => {
+                setRetryState(state);
+                setAppState(AppState.RETRYING);
+            },
+        });
+        if (controller.signal.aborted) return;
+
+        setRetryState(null);
         setForecastResult(forecast);
         setAppState(AppState.SUCCESS);
+        persistRuns([describeRun(segment, segmentName, dataset, settings, data, decisions, forecast)]);
     } catch (err: any) {
+        // Superseded or cancelled: whoever aborted owns the state now
+        if (controller.signal.aborted || isAbortError(err)) return;
         console.error(err);
+        setRetryState(null);
         setError(err.message || "AI ไม่สามารถพยากรณ์ข้อมูลส่วนนี้ได้");
         setAppState(AppState.ERROR);
     }
   };
 
-  const handleClassChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const cls = e.target.value;
-      setSelectedClass(cls);
-      
+  const handleForceRefresh = () => {
+      if (!fullDataset) return;
+      analyzeData(currentHistory, selectedClass, fullDataset, { forceRefresh: true }, outlierDecisions);
+  };
+
+  const handleCancelForecast = () => {
+      forecastRequest.current?.abort();
+      setRetryState(null);
+      setError("ยกเลิกการพยากรณ์แล้ว");
+      setAppState(AppState.ERROR);
+  };
+
+  // Retrying an analysis error re-runs the forecast instead of discarding the uploaded data
+  const handleRetry = () => {
+      if (fullDataset) {
+          setError(null);
+          analyzeSegment(selectedClass);
+      } else {
+          resetApp();
+      }
+  };
+
+  // History plus forecast for the Total and every class; classes use the batch run when there is one
+  const buildExportSegments = (dataset: ParsedDataSet): SegmentExport[] => {
+      const forecastFor = (cls: string): ForecastPoint[] => {
+          if (cls === selectedClass && forecastResult) return forecastResult.forecast;
+          if (cls === 'ALL') return batchTotal?.forecast ?? [];
+          return batchResults.find(r => r.segment === cls)?.result?.forecast ?? [];
+      };
+      return ['ALL', ...dataset.availableClasses].map(cls => ({
+          segment: cls,
+          label: cls === 'ALL' ? 'Total Portfolio' : cls,
+          history: cls === selectedClass ? currentHistory : cls === 'ALL' ? dataset.totalByDate : dataset.byClass[cls] || [],
+          adjusted: cls === selectedClass ? cleanedHistory : undefined,
+          forecast: forecastFor(cls),
+      }));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+      if (!fullDataset || !forecastResult) return;
+      const engineLabel = isAIForecast
+        ? `${FORECAST_PROVIDERS[engine].label} · ${FORECAST_PROVIDERS[engine].model}`
+        : FORECAST_METHOD_LABELS[method];
+
+      if (format === 'pdf') {
+          printForecastReport({
+              fileName,
+              segmentLabel: getSegmentName(selectedClass),
+              engineLabel,
+              result: forecastResult,
+              history: currentHistory,
+              chartSvg: chartRef.current?.querySelector('svg.recharts-surface')?.outerHTML ?? null,
+              quality: fullDataset.quality,
+          });
+          return;
+      }
+
+      const segments = buildExportSegments(fullDataset);
+      if (format === 'csv') {
+          downloadBlob(new Blob([forecastToCSV(segments)], { type: 'text/csv;charset=utf-8' }), `${exportBaseName(fileName || 'ar', 'forecast')}.csv`);
+      } else {
+          const workbook = await forecastToXLSX(segments, { fileName, engineLabel, horizon: forecastResult.forecast.length });
+          downloadBlob(workbook, `${exportBaseName(fileName || 'ar', 'forecast')}.xlsx`);
+      }
+  };
+
+  const getSegmentName = (cls: string, dataset: ParsedDataSet | null = fullDataset) => {
+      const base = cls === 'ALL'
+        ? 'Total Portfolio'
+        : `${describeSegmentKey(dataset?.segmentBy ?? ['accountclass'])}: ${cls}`;
+      const filterText = dataset ? describeFilters(dataset.filters) : '';
+      return filterText ? `${base} (${filterText})` : base;
+  };
+
+  const analyzeSegment = (cls: string, overrides: Partial<AnalysisSettings> = {}) => {
       if (fullDataset) {
           const dataToAnalyze = cls === 'ALL' 
             ? fullDataset.totalByDate 
             : fullDataset.byClass[cls] || [];
           
-          const segmentName = cls === 'ALL' ? 'Total Portfolio' : `Account Class: ${cls}`;
-          
           if (dataToAnalyze.length > 0) {
-             analyzeData(dataToAnalyze, segmentName);
+             analyzeData(dataToAnalyze, cls, fullDataset, overrides);
           } else {
              setError("ไม่มีข้อมูลสำหรับ Class ที่เลือก");
              setAppState(AppState.ERROR);
@@ -77,13 +435,275 @@ const App: React.FC = () => {
       }
   };
 
+  const handleClassChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const cls = e.target.value;
+      if (cls !== 'ALL') {
+          handleSelectSegment(cls);
+          return;
+      }
+      setSelectedClass(cls);
+      analyzeSegment(cls);
+  };
+
+  // Engine dropdown encodes either an AI provider id or one of the statistical methods
+  const handleEngineChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const value = e.target.value;
+      const llm = LLM_PROVIDERS.find(p => p.id === value);
+      const nextEngine: ForecastEngine = llm ? llm.id : 'statistical';
+      const nextMethod: ForecastMethod = llm ? method : value as ForecastMethod;
+      setEngine(nextEngine);
+      setMethod(nextMethod);
+      clearBatch();
+      analyzeSegment(selectedClass, { engine: nextEngine, method: nextMethod });
+  };
+
+  // Re-segmenting regroups the already parsed facts; no need to read the file again
+  const handleSegmentationChange = (segmentBy: SegmentDimension[], filters: DimensionFilters) => {
+      if (!fullDataset) return;
+      const regrouped = regroupDataset(fullDataset, segmentBy, filters, fullDataset.gapPolicy);
+      setFullDataset(regrouped);
+      setSelectedClass('ALL');
+      clearBatch();
+
+      if (regrouped.totalByDate.length > 0) {
+          analyzeData(regrouped.totalByDate, 'ALL', regrouped);
+      } else {
+          setError("ไม่มีข้อมูลสำหรับตัวกรองที่เลือก");
+          setAppState(AppState.ERROR);
+      }
+  };
+
+  // Same segments and filters, only the calendar filling changes
+  const handleGapPolicyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (!fullDataset) return;
+      const regrouped = regroupDataset(fullDataset, fullDataset.segmentBy, fullDataset.filters, e.target.value as GapPolicy);
+      setFullDataset(regrouped);
+      clearBatch();
+
+      const data = selectedClass === 'ALL' ? regrouped.totalByDate : regrouped.byClass[selectedClass] || [];
+      analyzeData(data, selectedClass, regrouped);
+  };
+
+  const handleOptionChange = (key: keyof ForecastOptions) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const nextOptions = normalizeForecastOptions({ ...forecastOptions, [key]: Number(e.target.value) });
+      setForecastOptions(nextOptions);
+      clearBatch();
+      analyzeSegment(selectedClass, { options: nextOptions });
+  };
+
+  const handleOutlierMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const nextMethod = e.target.value as OutlierMethod;
+      setOutlierMethod(nextMethod);
+      clearBatch();
+      analyzeSegment(selectedClass, { outlierMethod: nextMethod });
+  };
+
+  const handleOutlierApply = (decisions: OutlierDecisions) => {
+      if (!fullDataset) return;
+      clearBatch();
+      analyzeData(currentHistory, selectedClass, fullDataset, {}, decisions);
+  };
+
+  const handleForecastAll = async () => {
+      if (!fullDataset) return;
+      const settings: AnalysisSettings = { engine, method, options: forecastOptions, outlierMethod };
+      batchRequest.current?.abort();
+      const controller = new AbortController();
+      batchRequest.current = controller;
+      const { signal } = controller;
+      setIsBatchRunning(true);
+      try {
+          const [results, total] = await Promise.all([
+              forecastAllSegments(
+                  fullDataset.byClass,
+                  (history, cls) => runForecast(cleanSeries(history, outlierMethod).cleaned, getSegmentName(cls), settings, { signal }),
+                  // Keep AI requests gentle to avoid rate limits
+                  {
+                      concurrency: getForecastProvider(engine).concurrency,
+                      onProgress: progress => { if (!signal.aborted) setBatchProgress(progress); },
+                      signal,
+                  }
+              ),
+              runForecast(cleanSeries(fullDataset.totalByDate, outlierMethod).cleaned, getSegmentName('ALL'), settings, { signal }).catch(err => {
+                  console.error(err);
+                  return null;
+              }),
+          ]);
+          if (signal.aborted) return; // Superseded by a settings change or a newer batch
+          setBatchResults(results);
+          setBatchTotal(total);
+          persistRuns([
+              ...results.flatMap(r => r.result
+                ? [describeRun(r.segment, getSegmentName(r.segment), fullDataset, settings, fullDataset.byClass[r.segment] || [], {}, r.result)]
+                : []),
+              ...(total ? [describeRun('ALL', getSegmentName('ALL'), fullDataset, settings, fullDataset.totalByDate, {}, total)] : []),
+          ]);
+      } finally {
+          if (batchRequest.current === controller) {
+              batchRequest.current = null;
+              setIsBatchRunning(false);
+          }
+      }
+  };
+
+  // Reuse the batch result for a segment instead of calling the forecaster again
+  const handleSelectSegment = (cls: string) => {
+      const cached = batchResults.find(r => r.segment === cls && r.result);
+      setSelectedClass(cls);
+      if (cached?.result && fullDataset) {
+          forecastRequest.current?.abort(); // A slower single-segment forecast must not replace this one
+          setOpenRunId(null);
+          const history = fullDataset.byClass[cls] || [];
+          setCurrentHistory(history);
+          setOutliers(cleanSeries(history, outlierMethod).outliers);
+          setOutlierDecisions({});
+          setForecastResult(cached.result);
+          setAppState(AppState.SUCCESS);
+          window.scrollTo({ top: 0, behavior: 'smooth' });
+      } else {
+          analyzeSegment(cls);
+      }
+  };
+
+  // Reopens a stored run exactly as it was shown, without calling the forecaster again
+  const handleOpenRun = async (runId: string) => {
+    try {
+      setError(null);
+      const store = getRunStore();
+      const run = await store.loadRun(runId);
+      if (!run) throw new Error("ไม่พบผลพยากรณ์ที่บันทึกไว้");
+      const stored = run.datasetId ? await store.loadDataset(run.datasetId) : null;
+
+      forecastRequest.current?.abort();
+      // Without its upload the run still carries its own series; new forecasts from it are not saved
+      storedDataset.current = stored ? { id: Promise.resolve(stored.id), fileName: stored.fileName } : null;
+      setDatasetId(stored?.id ?? null);
+      setOpenRunId(run.id);
+      setFullDataset(stored ? regroupDataset(stored, run.segmentBy, run.filters, run.gapPolicy) : datasetFromRun(run));
+      setFileName(stored?.fileName ?? run.fileName);
+      setSelectedClass(run.segment);
+      clearBatch();
+      setEngine(run.engine);
+      setMethod(run.method);
+      setForecastOptions(run.options);
+      setOutlierMethod(run.outlierMethod);
+      setCurrentHistory(run.history);
+      setOutliers(cleanSeries(run.history, run.outlierMethod).outliers);
+      setOutlierDecisions(run.outlierDecisions);
+      setForecastResult(run.result);
+      setAppState(AppState.SUCCESS);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "ไม่สามารถเปิดผลพยากรณ์ได้");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Opens the stored dataset named in a shared link and forecasts the linked segment with the linked settings
+  const handleOpenSharedDataset = async (link: DashboardUrlState & { dataset: string }) => {
+    try {
+      setError(null);
+      setAppState(AppState.PARSING);
+      const stored = await getRunStore().loadDataset(link.dataset);
+      if (!stored) throw new Error("ไม่พบชุดข้อมูลของลิงก์นี้ อาจถูกลบไปแล้วหรือบันทึกไว้ในเบราว์เซอร์เครื่องอื่น");
+
+      const dataset = regroupDataset(stored, link.segmentBy ?? ['accountclass'], link.filters, link.gapPolicy);
+      // A provider that is not configured here falls back to what this browser would use
+      const nextEngine = link.engine && getForecastProvider(link.engine).isAvailable() ? link.engine : engine;
+      const nextMethod = link.method ?? method;
+      const nextOptions = normalizeForecastOptions({ ...forecastOptions, horizon: link.horizon ?? forecastOptions.horizon });
+      const segment = link.segment && dataset.availableClasses.includes(link.segment) ? link.segment : 'ALL';
+
+      storedDataset.current = { id: Promise.resolve(stored.id), fileName: stored.fileName };
+      setDatasetId(stored.id);
+      setFullDataset(dataset);
+      setFileName(stored.fileName);
+      setSelectedClass(segment);
+      clearBatch();
+      setEngine(nextEngine);
+      setMethod(nextMethod);
+      setForecastOptions(nextOptions);
+      analyzeData(segment === 'ALL' ? dataset.totalByDate : dataset.byClass[segment], segment, dataset, { engine: nextEngine, method: nextMethod, options: nextOptions });
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "ไม่สามารถเปิดลิงก์นี้ได้");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Brings the dashboard to the state in the address bar: on load, and on back/forward
+  const restoreUrlState = (link: DashboardUrlState) => {
+      if (link.scenarios) {
+          const shared = link.scenarios;
+          setScenarios(current => mergeSharedScenarios(current, shared));
+      }
+      if (link.run) {
+          if (link.run !== openRunId) handleOpenRun(link.run);
+      } else if (link.dataset && link.dataset === datasetId && fullDataset) {
+          const segmentBy = link.segmentBy ?? ['accountclass'];
+          if (isSameGrouping(fullDataset, segmentBy, link.filters, link.gapPolicy)) {
+              const segment = link.segment ?? 'ALL';
+              if (segment !== selectedClass && (segment === 'ALL' || fullDataset.availableClasses.includes(segment))) handleSelectSegment(segment);
+              return;
+          }
+          // Same upload cut another way: regroup before picking the linked segment
+          const regrouped = regroupDataset(fullDataset, segmentBy, link.filters, link.gapPolicy);
+          const segment = link.segment && regrouped.availableClasses.includes(link.segment) ? link.segment : 'ALL';
+          setFullDataset(regrouped);
+          setSelectedClass(segment);
+          clearBatch();
+          analyzeData(segment === 'ALL' ? regrouped.totalByDate : regrouped.byClass[segment], segment, regrouped);
+      } else if (link.dataset) {
+          handleOpenSharedDataset({ ...link, dataset: link.dataset });
+      }
+  };
+
+  // Once per page load (StrictMode runs mount effects twice in development)
+  const hasRestoredUrl = useRef(false);
+  useEffect(() => {
+      if (hasRestoredUrl.current) return;
+      hasRestoredUrl.current = true;
+      restoreUrlState(parseUrlState(window.location.search));
+  }, []);
+
+  // Re-registered every render so back/forward compares against the current state
+  useEffect(() => {
+      const handlePopState = () => restoreUrlState(parseUrlState(window.location.search));
+      window.addEventListener('popstate', handlePopState);
+      return () => window.removeEventListener('popstate', handlePopState);
+  });
+
+  useEffect(() => {
+      if (appState !== AppState.SUCCESS || !fullDataset) return;
+      syncUrlState({
+          run: openRunId ?? undefined,
+          dataset: datasetId ?? undefined,
+          segmentBy: fullDataset.segmentBy,
+          filters: fullDataset.filters,
+          gapPolicy: fullDataset.gapPolicy,
+          segment: selectedClass,
+          horizon: forecastOptions.horizon,
+          engine,
+          method,
+          scenarios: scenarios.filter(s => s.visible),
+      });
+  }, [appState, fullDataset, datasetId, openRunId, selectedClass, forecastOptions.horizon, engine, method, scenarios]);
+
   const resetApp = () => {
+    forecastRequest.current?.abort();
+    storedDataset.current = null;
+    setDatasetId(null);
+    setOpenRunId(null);
+    clearUrlState();
+    setRetryState(null);
     setAppState(AppState.IDLE);
     setFullDataset(null);
     setCurrentHistory([]);
     setForecastResult(null);
     setError(null);
     setSelectedClass('ALL');
+    clearBatch();
+    setPendingUpload(null);
   };
 
   // Merge Data for Chart
@@ -92,12 +712,19 @@ const App: React.FC = () => {
 
     const combined: ChartDataPoint[] = [];
 
-    // Historical
-    currentHistory.forEach(item => {
+    // Historical (actuals as uploaded, with the adjusted value where an outlier was replaced)
+    currentHistory.forEach((item, i) => {
+      const cleaned = cleanedHistory[i];
       combined.push({
         date: item.date,
-        actual: item.amount,
-        forecast: null
+        actual: item.missing ? null : item.amount,
+        forecast: null,
+        range80: null,
+        range95: null,
+        filled: item.filled,
+        missing: item.missing,
+        outlier: outliers.some(flag => flag.date === item.date),
+        adjusted: cleaned?.adjusted ? cleaned.amount : null
       });
     });
 
@@ -108,19 +735,33 @@ const App: React.FC = () => {
              const lastHistory = currentHistory[currentHistory.length - 1];
              // We update the last actual point to also act as the start of the forecast line (for continuity)
              combined[combined.length - 1].forecast = lastHistory.amount; 
+             // Bands fan out from the last known value
+             if (forecastResult.forecast.some(item => item.lower80 !== undefined)) {
+                 combined[combined.length - 1].range80 = [lastHistory.amount, lastHistory.amount];
+                 combined[combined.length - 1].range95 = [lastHistory.amount, lastHistory.amount];
+             }
+             // Scenario lines start from the same point
+             combined[combined.length - 1].scenarios = Object.fromEntries(scenarios.map(s => [s.id, lastHistory.amount]));
         }
 
-        forecastResult.forecast.forEach(item => {
+        forecastResult.forecast.forEach((item, i) => {
              combined.push({
                 date: item.date,
                 actual: null,
-                forecast: item.amount
+                forecast: item.amount,
+                range80: item.lower80 !== undefined && item.upper80 !== undefined ? [item.lower80, item.upper80] : null,
+                range95: item.lower95 !== undefined && item.upper95 !== undefined ? [item.lower95, item.upper95] : null,
+                scenarios: Object.fromEntries(scenarioSeries.map(s => [s.scenario.id, s.forecast[i].amount]))
              });
         });
     }
 
     return combined;
-  }, [currentHistory, forecastResult]);
+  }, [currentHistory, cleanedHistory, outliers, forecastResult, scenarios, scenarioSeries]);
+
+  const scenarioOverlays = scenarios
+    .map((scenario, i) => ({ id: scenario.id, name: scenario.name, color: SCENARIO_COLORS[i % SCENARIO_COLORS.length], visible: scenario.visible }))
+    .filter(overlay => overlay.visible);
 
   const getLastHistoryDate = () => {
     if (currentHistory.length === 0) return undefined;
@@ -145,10 +786,10 @@ const App: React.FC = () => {
             </div>
             <div className="hidden sm:block">
               <h1 className="text-lg font-bold text-slate-800 tracking-tight">AI AR Forecaster</h1>
-              <p className="text-[10px] text-slate-500 font-semibold uppercase tracking-wider">Powered by Gemini 2.5</p>
+              <p className="text-[10px] text-slate-500 font-semibold uppercase tracking-wider">Gemini · Local LLM · Statistical</p>
             </div>
           </div>
-          {(appState === AppState.SUCCESS || appState === AppState.ANALYZING) && (
+          {(appState === AppState.SUCCESS || isForecasting) && (
              <button 
                 onClick={resetApp}
                 className="text-sm font-medium text-slate-600 hover:text-indigo-600 bg-slate-100 hover:bg-indigo-50 px-4 py-2 rounded-lg transition-all duration-200 border border-transparent hover:border-indigo-100"
@@ -170,9 +811,16 @@ const App: React.FC = () => {
             <div className="flex-1">
               <h3 className="font-semibold text-red-900">เกิดข้อผิดพลาด</h3>
               <p className="text-red-700 text-sm mt-1">{error}</p>
-              <button onClick={resetApp} className="mt-3 text-xs font-semibold text-white bg-red-600 hover:bg-red-700 px-4 py-2 rounded-md transition-colors shadow-sm">
-                ลองใหม่อีกครั้ง
-              </button>
+              <div className="mt-3 flex flex-wrap gap-2">
+                <button onClick={handleRetry} className="text-xs font-semibold text-white bg-red-600 hover:bg-red-700 px-4 py-2 rounded-md transition-colors shadow-sm">
+                  ลองใหม่อีกครั้ง
+                </button>
+                {fullDataset && (
+                  <button onClick={resetApp} className="text-xs font-semibold text-red-700 hover:text-red-900 bg-white border border-red-200 px-4 py-2 rounded-md transition-colors">
+                    อัปโหลดไฟล์ใหม่
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -194,6 +842,7 @@ const App: React.FC = () => {
                 <FileUpload 
                     onFileSelect={handleFileSelect} 
                     isLoading={appState === AppState.PARSING} 
+                    progress={parseProgress}
                 />
              </div>
 
@@ -205,58 +854,178 @@ const App: React.FC = () => {
                    </div>
                  )}
              </div>
+
+             {/* Previously saved runs */}
+             <div className="mt-4">
+                <RunHistoryPanel onOpen={handleOpenRun} disabled={appState === AppState.PARSING} />
+             </div>
+          </div>
+        )}
+
+        {/* Column Mapping Step */}
+        {appState === AppState.MAPPING && pendingUpload && (
+          <div className="max-w-5xl mx-auto mt-8">
+            <ColumnMappingWizard
+              fileName={pendingUpload.file.name}
+              preview={pendingUpload.preview}
+              initialMapping={pendingUpload.mapping}
+              isRemembered={pendingUpload.isRemembered}
+              onConfirm={handleMappingConfirm}
+              onCancel={resetApp}
+            />
+          </div>
+        )}
+
+        {/* Data Quality Review Step */}
+        {appState === AppState.REVIEW && fullDataset && (
+          <div className="max-w-5xl mx-auto mt-8 animate-fade-in">
+            <DataQualityPanel
+              report={fullDataset.quality}
+              fileName={fileName}
+              onContinue={() => analyzeData(fullDataset.totalByDate, 'ALL', fullDataset)}
+              onCancel={resetApp}
+            />
           </div>
         )}
 
         {/* Control Bar (Filter) */}
-        {(appState === AppState.SUCCESS || appState === AppState.ANALYZING) && fullDataset && (
-           <div className="mb-8 animate-fade-in bg-white p-4 sm:p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row items-center justify-between gap-6 sticky top-[72px] z-20">
+        {(appState === AppState.SUCCESS || isForecasting) && fullDataset && (
+           <div className="mb-8 animate-fade-in bg-white p-4 sm:p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col gap-4 sticky top-[72px] z-20">
+             <div className="flex flex-col md:flex-row items-center justify-between gap-6">
                 <div className="flex items-center gap-4 w-full md:w-auto">
                     <div className="p-3 bg-indigo-50 text-indigo-600 rounded-xl flex-shrink-0">
                         <Filter className="w-5 h-5" />
                     </div>
                     <div>
                         <p className="text-[11px] text-slate-400 font-bold uppercase tracking-wider">Filter Segment</p>
-                        <p className="text-sm font-semibold text-slate-800">เลือกประเภทลูกหนี้ (Account Class)</p>
+                        <p className="text-sm font-semibold text-slate-800">เลือกกลุ่มลูกหนี้ ({describeSegmentKey(fullDataset.segmentBy)})</p>
                     </div>
                 </div>
-                <div className="w-full md:w-auto flex-1 md:max-w-md">
+                <div className="w-full md:w-auto flex-1 md:max-w-2xl flex flex-col sm:flex-row gap-3">
+                    <select 
+                        value={engine === 'statistical' ? method : engine}
+                        onChange={handleEngineChange}
+                        disabled={isForecasting}
+                        className="w-full sm:w-64 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-slate-700 font-medium focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all disabled:opacity-60 disabled:cursor-not-allowed shadow-sm"
+                    >
+                        <optgroup label="AI">
+                            {LLM_PROVIDERS.map(p => (
+                                <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+                                    {p.label}{p.isAvailable() ? '' : ` (${p.unavailableReason})`}
+                                </option>
+                            ))}
+                        </optgroup>
+                        <optgroup label="Statistical (Offline)">
+                            {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => (
+                                <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>
+                            ))}
+                        </optgroup>
+                    </select>
                     <select 
                         value={selectedClass}
                         onChange={handleClassChange}
-                        disabled={appState === AppState.ANALYZING}
+                        disabled={isForecasting}
                         className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-slate-700 font-medium focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all disabled:opacity-60 disabled:cursor-not-allowed shadow-sm"
                     >
                         <option value="ALL">ยอดรวมทั้งหมด (Total Portfolio)</option>
-                        <optgroup label="แยกตาม Class">
+                        <optgroup label={`แยกตาม ${describeSegmentKey(fullDataset.segmentBy)}`}>
                             {fullDataset.availableClasses.map(cls => (
                                 <option key={cls} value={cls}>{cls}</option>
                             ))}
                         </optgroup>
                     </select>
                 </div>
+             </div>
+
+             {/* Segmentation & Drill-down */}
+             <SegmentationControls
+                dataset={fullDataset}
+                disabled={isForecasting}
+                onChange={handleSegmentationChange}
+             />
+
+             {/* Forecast Settings */}
+             <div className="flex flex-wrap items-center gap-x-6 gap-y-2 pt-3 border-t border-slate-100 text-xs text-slate-500 font-medium">
+                <label className="flex items-center gap-2">
+                    ระยะพยากรณ์
+                    <select value={forecastOptions.horizon} onChange={handleOptionChange('horizon')} disabled={isForecasting} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60">
+                        {HORIZON_CHOICES.map(h => <option key={h} value={h}>{h} เดือน</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    ข้อมูลย้อนหลังที่ใช้
+                    <select value={forecastOptions.historyWindow} onChange={handleOptionChange('historyWindow')} disabled={isForecasting} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60">
+                        {HISTORY_WINDOW_CHOICES.map(w => <option key={w} value={w}>{w} เดือน</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    ข้อมูลขั้นต่ำ
+                    <select value={forecastOptions.minHistory} onChange={handleOptionChange('minHistory')} disabled={isForecasting} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60">
+                        {MIN_HISTORY_CHOICES.map(m => <option key={m} value={m}>{m} เดือน</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    เดือนที่ไม่มีข้อมูล
+                    <select value={fullDataset.gapPolicy} onChange={handleGapPolicyChange} disabled={isForecasting} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60">
+                        {GAP_POLICIES.map(p => <option key={p} value={p}>{GAP_POLICY_LABELS[p]}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    ปรับ Outlier
+                    <select value={outlierMethod} onChange={handleOutlierMethodChange} disabled={isForecasting} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60">
+                        {OUTLIER_METHODS.map(m => <option key={m} value={m}>{OUTLIER_METHOD_LABELS[m]}</option>)}
+                    </select>
+                </label>
+             </div>
            </div>
         )}
 
         {/* Loading State for Analysis */}
-        {appState === AppState.ANALYZING && (
+        {isForecasting && (
             <div className="max-w-lg mx-auto text-center py-20 animate-fade-in">
                 <div className="relative w-20 h-20 mx-auto mb-8">
                     <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
                     <div className="absolute inset-0 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
                     <BrainCircuit className="absolute inset-0 m-auto text-indigo-600 w-8 h-8 animate-pulse" />
                 </div>
-                <h3 className="text-2xl font-bold text-slate-800 mb-2">Gemini กำลังวิเคราะห์ข้อมูล</h3>
+                <h3 className="text-2xl font-bold text-slate-800 mb-2">
+                    {engine === 'statistical' ? 'กำลังคำนวณโมเดลสถิติ' : `${FORECAST_PROVIDERS[engine].label} กำลังวิเคราะห์ข้อมูล`}
+                </h3>
                 <p className="text-slate-500">
                     กำลังประเมินแนวโน้ม Seasonality และสร้างโมเดลพยากรณ์<br/>
                     สำหรับ <span className="text-indigo-600 font-semibold">"{selectedClass === 'ALL' ? 'Total Portfolio' : selectedClass}"</span>
                 </p>
+                {appState === AppState.RETRYING && retryState && (
+                    <p className="mt-6 inline-flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 px-4 py-2 rounded-xl">
+                        <RotateCw className="w-4 h-4 animate-spin" />
+                        {retryState.reason} · กำลังลองใหม่ครั้งที่ {retryState.attempt}/{retryState.maxAttempts} (รอ {(retryState.delayMs / 1000).toFixed(1)} วินาที)
+                    </p>
+                )}
+                {engine !== 'statistical' && (
+                    <div className="mt-6">
+                        <button onClick={handleCancelForecast} className="text-sm font-medium text-slate-500 hover:text-red-600 transition-colors">
+                            ยกเลิก
+                        </button>
+                    </div>
+                )}
             </div>
         )}
 
         {/* Results Dashboard */}
         {appState === AppState.SUCCESS && forecastResult && (
           <div className="animate-fade-in space-y-6 sm:space-y-8">
+
+            {forecastResult.fallback && (
+                <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-5 py-4 rounded-2xl text-sm">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                    <div>
+                        <p className="font-semibold">
+                            {FORECAST_PROVIDERS[forecastResult.fallback.from].label} ส่งผลพยากรณ์ที่ไม่ถูกต้อง จึงแสดงผลจากโมเดลสถิติ ({FORECAST_METHOD_LABELS[method]}) แทน
+                        </p>
+                        <p className="text-xs text-amber-700 mt-1">{forecastResult.fallback.reason}</p>
+                    </div>
+                </div>
+            )}
             
             {/* Top Stats Grid */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6">
@@ -287,7 +1056,7 @@ const App: React.FC = () => {
                             <div className="bg-emerald-50 text-emerald-600 p-1.5 rounded-md">
                                 <DollarSign className="w-4 h-4" />
                             </div>
-                            <p className="text-xs font-bold text-emerald-600/70 uppercase tracking-wider">Next 6 Months Forecast</p>
+                            <p className="text-xs font-bold text-emerald-600/70 uppercase tracking-wider">Next {forecastOptions.horizon} Months Forecast</p>
                         </div>
                         <h3 className="text-3xl sm:text-4xl font-bold text-emerald-600 tabular-nums tracking-tight">
                             {new Intl.NumberFormat('th-TH', { style: 'decimal', notation: 'compact', maximumFractionDigits: 1 }).format(
@@ -329,20 +1098,24 @@ const App: React.FC = () => {
                         <TrendingUp className="w-5 h-5 text-indigo-600" />
                         Forecast Visualization
                     </h3>
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
-                        {selectedClass === 'ALL' ? 'All Classes' : selectedClass}
-                    </span>
+                    <div className="flex items-center gap-3">
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
+                            {selectedClass === 'ALL' ? 'All Classes' : selectedClass}
+                        </span>
+                        <ExportMenu onExport={handleExport} disabled={isBatchRunning} />
+                    </div>
                 </div>
-                <div className="w-full">
-                    <ForecastChart data={chartData} splitDate={getLastHistoryDate()} />
+                <div className="w-full" ref={chartRef}>
+                    <ForecastChart data={chartData} splitDate={getLastHistoryDate()} scenarios={scenarioOverlays} />
                 </div>
+                <DecompositionPanel history={currentHistory} />
             </div>
 
-            {/* Insight & Table Grid */}
+            {/* Insight, Backtest & Table Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8">
                
                {/* AI Insight Box */}
-               <div className="lg:col-span-2 bg-slate-900 text-white p-6 sm:p-8 rounded-3xl shadow-xl relative overflow-hidden flex flex-col">
+               <div className="lg:col-span-3 bg-slate-900 text-white p-6 sm:p-8 rounded-3xl shadow-xl relative overflow-hidden flex flex-col">
                   {/* Decorative Background */}
                   <div className="absolute top-0 right-0 w-80 h-80 bg-indigo-600/20 blur-[80px] rounded-full -mr-20 -mt-20 pointer-events-none"></div>
                   <div className="absolute bottom-0 left-0 w-60 h-60 bg-violet-600/10 blur-[60px] rounded-full -ml-10 -mb-10 pointer-events-none"></div>
@@ -350,12 +1123,32 @@ const App: React.FC = () => {
                   <div className="relative z-10 flex-1">
                     <div className="flex items-center gap-3 mb-6">
                         <div className="bg-indigo-500/20 p-2 rounded-xl backdrop-blur-md border border-indigo-500/30 shadow-inner">
-                            <Sparkles className="w-5 h-5 text-indigo-300" />
+                            {isAIForecast ? <Sparkles className="w-5 h-5 text-indigo-300" /> : <Cpu className="w-5 h-5 text-indigo-300" />}
                         </div>
                         <div>
-                            <h3 className="text-lg font-bold text-white">AI Strategic Insight</h3>
-                            <p className="text-indigo-200 text-xs uppercase tracking-widest font-semibold">Generated by Gemini 2.5</p>
+                            <h3 className="text-lg font-bold text-white">{isAIForecast ? 'AI Strategic Insight' : 'Statistical Model Insight'}</h3>
+                            <p className="text-indigo-200 text-xs uppercase tracking-widest font-semibold">
+                                {isAIForecast ? `Generated by ${FORECAST_PROVIDERS[engine].label} · ${FORECAST_PROVIDERS[engine].model}` : `Computed locally · ${FORECAST_METHOD_LABELS[method]}`}
+                            </p>
                         </div>
+                        {engine !== 'statistical' && (
+                            <div className="ml-auto flex items-center gap-2">
+                                {forecastResult.cachedAt && (
+                                    <span className="inline-flex items-center gap-1.5 text-[11px] font-semibold text-emerald-300 bg-emerald-500/10 border border-emerald-500/30 px-2.5 py-1 rounded-lg" title="ผลลัพธ์เดิมสำหรับข้อมูลชุดเดียวกัน ไม่ได้เรียก AI ใหม่">
+                                        <Database className="w-3.5 h-3.5" />
+                                        จากแคช · {new Date(forecastResult.cachedAt).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}
+                                    </span>
+                                )}
+                                <button
+                                    onClick={handleForceRefresh}
+                                    className="inline-flex items-center gap-1.5 text-[11px] font-semibold text-indigo-200 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 px-2.5 py-1 rounded-lg transition-colors"
+                                    title="เรียก AI ใหม่โดยไม่ใช้แคช"
+                                >
+                                    <RotateCw className="w-3.5 h-3.5" />
+                                    Force refresh
+                                </button>
+                            </div>
+                        )}
                     </div>
                     
                     <div className="prose prose-invert max-w-none">
@@ -367,8 +1160,10 @@ const App: React.FC = () => {
 
                   <div className="relative z-10 mt-8 pt-6 border-t border-slate-700/50 flex flex-wrap gap-4">
                       <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700">
-                         <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-pulse"></div>
-                         Seasonality Detected
+                         <div className={`w-1.5 h-1.5 rounded-full ${historyStrength !== null && historyStrength >= 0.3 ? 'bg-emerald-400 animate-pulse' : 'bg-slate-500'}`}></div>
+                         {historyStrength === null
+                           ? 'Seasonality: Insufficient History'
+                           : `${describeSeasonalStrength(historyStrength)} (${historyStrength.toFixed(2)})`}
                       </div>
                       <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700">
                          <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
@@ -377,13 +1172,18 @@ const App: React.FC = () => {
                   </div>
                </div>
 
+               {/* Backtest Accuracy */}
+               <div className="lg:col-span-2">
+                  <BacktestPanel history={cleanedHistory} segmentName={getSegmentName(selectedClass)} options={forecastOptions} />
+               </div>
+
                {/* Forecast Table */}
                <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm flex flex-col h-[400px] lg:h-auto">
                   <h4 className="font-bold text-slate-800 mb-4 flex items-center justify-between flex-shrink-0">
                       <span>Monthly Breakdown</span>
                       <div className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md uppercase tracking-wider">
                           <Calendar className="w-3 h-3" />
-                          Next 6M
+                          Next {forecastOptions.horizon}M
                       </div>
                   </h4>
                   <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-2">
@@ -395,15 +1195,77 @@ const App: React.FC = () => {
                                   </span>
                                   <span className="text-sm font-medium text-slate-600 group-hover:text-slate-900">{item.date}</span>
                               </div>
-                              <span className="font-mono text-sm font-bold text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg group-hover:bg-white group-hover:shadow-sm transition-all tabular-nums">
-                                  {new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(item.amount)}
-                              </span>
+                              <div className="flex flex-col items-end gap-1">
+                                  <span className="font-mono text-sm font-bold text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg group-hover:bg-white group-hover:shadow-sm transition-all tabular-nums">
+                                      {new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(item.amount)}
+                                  </span>
+                                  {item.lower80 !== undefined && item.upper80 !== undefined && (
+                                      <span className="font-mono text-[10px] text-slate-400 tabular-nums">
+                                          80%: {new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(item.lower80)}
+                                          {' – '}
+                                          {new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(item.upper80)}
+                                      </span>
+                                  )}
+                              </div>
                           </div>
                       ))}
                   </div>
                </div>
 
             </div>
+
+            {/* Earlier forecasts scored against this upload */}
+            {forecastAccuracy.length > 0 && (
+              <ForecastTrackingPanel accuracy={forecastAccuracy} segmentName={getSegmentName(selectedClass)} />
+            )}
+
+            {/* What-if Scenarios */}
+            {fullDataset && (
+              <ScenarioPanel
+                scenarios={scenarios}
+                series={scenarioSeries}
+                base={forecastResult.forecast}
+                segment={selectedClass}
+                availableClasses={fullDataset.availableClasses}
+                onChange={handleScenariosChange}
+              />
+            )}
+
+            {/* Outlier Adjustments */}
+            {outliers.length > 0 && (
+              <OutlierPanel
+                outliers={outliers}
+                decisions={outlierDecisions}
+                method={outlierMethod}
+                disabled={appState !== AppState.SUCCESS}
+                onApply={handleOutlierApply}
+              />
+            )}
+
+            {/* All Segments Comparison */}
+            {fullDataset && fullDataset.availableClasses.length > 0 && (
+              <SegmentComparisonTable
+                results={batchResults}
+                progress={batchProgress}
+                isRunning={isBatchRunning}
+                horizon={forecastOptions.horizon}
+                onRun={handleForecastAll}
+                onSelectSegment={handleSelectSegment}
+              />
+            )}
+
+            {/* Hierarchical Reconciliation */}
+            {fullDataset && batchTotal && batchResults.length > 0 && (
+              <ReconciliationPanel dataset={fullDataset} totalForecast={batchTotal} segmentResults={batchResults} />
+            )}
+
+            {/* Data Quality */}
+            {fullDataset && <DataQualityPanel report={fullDataset.quality} fileName={fileName} />}
+
+            {/* AR Aging (requires duedatefirst) */}
+            {fullDataset && hasDueDates(fullDataset.facts) && (
+              <AgingPanel dataset={fullDataset} horizon={forecastOptions.horizon} />
+            )}
           </div>
         )}
       </main>
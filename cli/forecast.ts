@@ -0,0 +1,270 @@
+import { openAsBlob } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ForecastEngine, ForecastMethod, GapPolicy, OutlierMethod, SegmentDimension, MonthlyData, SegmentExport, DataQualityReport, ParsedDataSet } from '../types';
+import { parseCSVStream, CSVFormatError } from '../services/csvService';
+import { regroupDataset, DIMENSION_LABELS } from '../services/segmentService';
+import { GAP_POLICIES, DEFAULT_GAP_POLICY } from '../services/gapFillService';
+import { rejectedRowCount, findMonthGaps } from '../services/dataQualityService';
+import { cleanSeries, DEFAULT_OUTLIER_METHOD, OUTLIER_METHOD_LABELS } from '../services/outlierService';
+import { FORECAST_PROVIDERS, getForecastProvider, forecastWithFallback } from '../services/forecastProviders';
+import { FORECAST_METHOD_LABELS } from '../services/statisticalService';
+import { DEFAULT_FORECAST_OPTIONS, MIN_HORIZON, MAX_HORIZON, normalizeForecastOptions } from '../services/forecastOptions';
+import { forecastAllSegments } from '../services/batchForecastService';
+import { forecastToCSV } from '../services/exportService';
+
+// Headless batch forecast for scheduled jobs: aggregates a CSV with the same streaming parser
+// as the app, forecasts the total and every segment, and writes JSON or CSV.
+// Logs go to stderr so stdout can be piped.
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1; // Bad arguments, unreadable file, unexpected failure
+const EXIT_DATA_QUALITY = 2; // The file did not pass the data-quality gate
+const EXIT_FORECAST_FAILED = 3; // One or more segments could not be forecast
+
+const USAGE = `Usage: npm run forecast -- <file.csv> [options]
+
+Options:
+  --segment-by <dims>          Comma-separated segment columns (default: accountclass)
+                               One of: ${Object.keys(DIMENSION_LABELS).join(', ')}
+  --horizon <months>           Months to forecast (default: ${DEFAULT_FORECAST_OPTIONS.horizon})
+  --provider <id>              ${Object.keys(FORECAST_PROVIDERS).join(' | ')} (default: statistical)
+  --method <method>            Statistical method (default: auto): ${Object.keys(FORECAST_METHOD_LABELS).join(', ')}
+  --gap-policy <policy>        ${GAP_POLICIES.join(' | ')} (default: ${DEFAULT_GAP_POLICY})
+  --outliers <method>          ${Object.keys(OUTLIER_METHOD_LABELS).join(' | ')} (default: ${DEFAULT_OUTLIER_METHOD})
+  --format <json|csv>          Output format (default: json)
+  --out <path>                 Write to a file instead of stdout
+  --max-rejected-percent <n>   Fail when more than n% of rows are skipped (default: 0)
+  --fail-on-gaps               Fail when any segment has months without data
+
+Exit codes: 0 ok, 1 error, 2 data-quality failure, 3 some segments failed to forecast.
+AI providers read API_KEY / GEMINI_MODEL / LLM_* from the environment.`;
+
+// Thrown for bad arguments; printed with the usage text
+class UsageError extends Error {}
+
+interface CliOptions {
+  file: string;
+  segmentBy: SegmentDimension[];
+  horizon: number;
+  engine: ForecastEngine;
+  method: ForecastMethod;
+  gapPolicy: GapPolicy;
+  outlierMethod: OutlierMethod;
+  format: 'json' | 'csv';
+  out?: string;
+  maxRejectedPercent: number;
+  failOnGaps: boolean;
+}
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], flag: string): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`Invalid ${flag} "${value}". Expected one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const toNumber = (value: string, flag: string): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) throw new UsageError(`Invalid ${flag} "${value}"`);
+  return number;
+};
+
+const parseOptions = (argv: string[]): CliOptions | null => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'segment-by': { type: 'string', default: 'accountclass' },
+      'horizon': { type: 'string', default: String(DEFAULT_FORECAST_OPTIONS.horizon) },
+      'provider': { type: 'string', default: 'statistical' },
+      'method': { type: 'string', default: 'auto' },
+      'gap-policy': { type: 'string', default: DEFAULT_GAP_POLICY },
+      'outliers': { type: 'string', default: DEFAULT_OUTLIER_METHOD },
+      'format': { type: 'string', default: 'json' },
+      'out': { type: 'string' },
+      'max-rejected-percent': { type: 'string', default: '0' },
+      'fail-on-gaps': { type: 'boolean', default: false },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError("Expected exactly one CSV file");
+
+  const dimensions = Object.keys(DIMENSION_LABELS) as SegmentDimension[];
+  const horizon = toNumber(values.horizon!, '--horizon');
+  if (!Number.isInteger(horizon) || horizon < MIN_HORIZON || horizon > MAX_HORIZON) {
+    throw new UsageError(`--horizon must be a whole number from ${MIN_HORIZON} to ${MAX_HORIZON}`);
+  }
+
+  return {
+    file: positionals[0],
+    segmentBy: values['segment-by']!.split(',').map(dim => oneOf(dim.trim(), dimensions, '--segment-by')),
+    horizon,
+    engine: oneOf(values.provider!, Object.keys(FORECAST_PROVIDERS) as ForecastEngine[], '--provider'),
+    method: oneOf(values.method!, Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[], '--method'),
+    gapPolicy: oneOf(values['gap-policy']!, GAP_POLICIES, '--gap-policy'),
+    outlierMethod: oneOf(values.outliers!, Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[], '--outliers'),
+    format: oneOf(values.format!, ['json', 'csv'] as const, '--format'),
+    out: values.out,
+    maxRejectedPercent: toNumber(values['max-rejected-percent']!, '--max-rejected-percent'),
+    failOnGaps: values['fail-on-gaps']!,
+  };
+};
+
+// Reasons the file fails the gate; empty when it may be forecast
+const checkDataQuality = (quality: DataQualityReport, options: CliOptions): string[] => {
+  const problems: string[] = [];
+  const rejected = rejectedRowCount(quality);
+  const rejectedPercent = quality.totalRows > 0 ? (rejected / quality.totalRows) * 100 : 0;
+
+  if (quality.acceptedRows === 0) problems.push("No usable rows in the file");
+  if (rejectedPercent > options.maxRejectedPercent) {
+    problems.push(`${rejected} of ${quality.totalRows} rows skipped (${rejectedPercent.toFixed(2)}% > ${options.maxRejectedPercent}%)`);
+  }
+  if (options.failOnGaps && quality.gaps.length > 0) {
+    problems.push(`${quality.gaps.length} month gap(s), e.g. ${quality.gaps[0].segment}: ${quality.gaps[0].from} – ${quality.gaps[0].to}`);
+  }
+  return problems;
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(argv);
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const provider = getForecastProvider(options.engine);
+  if (!provider.isAvailable()) {
+    console.error(`Provider "${provider.id}" is not available: ${provider.unavailableReason}`);
+    return EXIT_ERROR;
+  }
+
+  console.error(`Parsing ${options.file}...`);
+  let file: Blob;
+  try {
+    file = await openAsBlob(options.file);
+  } catch {
+    console.error(`Cannot read ${options.file}`);
+    return EXIT_ERROR;
+  }
+  let parsed: ParsedDataSet;
+  try {
+    parsed = await parseCSVStream(file);
+  } catch (error: any) {
+    // Missing columns or no usable rows fail the gate; anything else is unexpected
+    console.error(error instanceof CSVFormatError ? `Data quality: ${error.message}` : error.message);
+    return error instanceof CSVFormatError ? EXIT_DATA_QUALITY : EXIT_ERROR;
+  }
+
+  const unknownDimensions = options.segmentBy.filter(dim => !parsed.dimensions.includes(dim));
+  if (unknownDimensions.length > 0) {
+    const available = parsed.dimensions.length > 0 ? parsed.dimensions.join(', ') : 'none';
+    console.error(`--segment-by: ${unknownDimensions.join(', ')} not in ${options.file} (available: ${available})\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  const dataset = regroupDataset(parsed, options.segmentBy, {}, options.gapPolicy);
+  // The parser reports gaps for its default segmentation; report them for the requested one
+  const quality: DataQualityReport = {
+    ...parsed.quality,
+    gaps: [
+      ...findMonthGaps(dataset.totalByDate, 'Total'),
+      ...dataset.availableClasses.flatMap(cls => findMonthGaps(dataset.byClass[cls], cls)),
+    ],
+  };
+
+  const problems = checkDataQuality(quality, options);
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(`Data quality: ${problem}`));
+    return EXIT_DATA_QUALITY;
+  }
+
+  const { engine, method, outlierMethod } = options;
+  const forecastOptions = normalizeForecastOptions({ ...DEFAULT_FORECAST_OPTIONS, horizon: options.horizon });
+  // Same pipeline as "Forecast All Segments" in the app: outliers cleaned, invalid AI answers replaced statistically
+  const forecaster = (history: MonthlyData[], segmentName: string) =>
+    forecastWithFallback(engine, cleanSeries(history, outlierMethod).cleaned, segmentName, forecastOptions, method);
+
+  console.error(`Forecasting total and ${dataset.availableClasses.length} segment(s) with ${provider.label} (${provider.model})...`);
+  const [[total], segments] = await Promise.all([
+    forecastAllSegments({ ALL: dataset.totalByDate }, (history) => forecaster(history, 'Total Portfolio')),
+    forecastAllSegments(dataset.byClass, forecaster, {
+      concurrency: provider.concurrency,
+      onProgress: progress => console.error(`  ${progress.completed}/${progress.total} segments${progress.failed ? ` (${progress.failed} failed)` : ''}`),
+    }),
+  ]);
+
+  const summaries = [total, ...segments];
+  const failed = summaries.filter(s => s.status === 'error');
+  failed.forEach(s => console.error(`Forecast failed for ${s.segment}: ${s.error}`));
+
+  const history = (segment: string) => segment === 'ALL' ? dataset.totalByDate : dataset.byClass[segment];
+  let output: string;
+  if (options.format === 'csv') {
+    const exports: SegmentExport[] = summaries.map(s => ({
+      segment: s.segment,
+      label: s.segment === 'ALL' ? 'Total Portfolio' : s.segment,
+      history: history(s.segment),
+      adjusted: cleanSeries(history(s.segment), outlierMethod).cleaned,
+      forecast: s.result?.forecast ?? [],
+    }));
+    output = forecastToCSV(exports);
+  } else {
+    output = JSON.stringify({
+      file: basename(options.file),
+      generatedAt: new Date().toISOString(),
+      provider: provider.id,
+      model: provider.model,
+      method,
+      segmentBy: dataset.segmentBy,
+      gapPolicy: dataset.gapPolicy,
+      outlierMethod,
+      horizon: forecastOptions.horizon,
+      quality: {
+        totalRows: quality.totalRows,
+        acceptedRows: quality.acceptedRows,
+        rejectedRows: rejectedRowCount(quality),
+        duplicateRows: quality.duplicateRows,
+        negativeRows: quality.negativeRows,
+        gaps: quality.gaps,
+      },
+      segments: summaries.map(s => ({
+        segment: s.segment,
+        status: s.status,
+        error: s.error,
+        trend: s.trend,
+        forecastTotal: s.forecastTotal,
+        growthVsLastYear: s.growthVsLastYear,
+        fallback: s.result?.fallback,
+        reasoning: s.result?.reasoning,
+        forecast: s.result?.forecast ?? [],
+      })),
+    }, null, 2);
+  }
+
+  if (options.out) {
+    await writeFile(options.out, output, 'utf8');
+    console.error(`Wrote ${options.out}`);
+  } else {
+    process.stdout.write(output + '\n');
+  }
+
+  return failed.length > 0 ? EXIT_FORECAST_FAILED : EXIT_OK;
+};
+
+run(process.argv.slice(2))
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error(error?.message || error);
+    process.exitCode = EXIT_ERROR;
+  });
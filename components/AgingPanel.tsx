@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ParsedDataSet, AgingBuckets } from '../types';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  computeAgingSnapshot,
+  computeAgingTrend,
+  forecastAgingRollForward,
+  endOfMonth,
+} from '../services/agingService';
+import { describeSegmentKey } from '../services/segmentService';
+
+interface AgingPanelProps {
+  dataset: ParsedDataSet;
+  horizon: number;
+}
+
+const BUCKET_COLORS = ['#10b981', '#f59e0b', '#f97316', '#e11d48'];
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const sumBuckets = (buckets: AgingBuckets) => AGING_BUCKETS.reduce((acc, b) => acc + buckets[b], 0);
+
+export const AgingPanel: React.FC<AgingPanelProps> = ({ dataset, horizon }) => {
+  const latestPeriod = dataset.totalByDate.length > 0 ? dataset.totalByDate[dataset.totalByDate.length - 1].date : '';
+  const [asOf, setAsOf] = useState<string>(latestPeriod ? endOfMonth(latestPeriod) : '');
+
+  const snapshot = useMemo(
+    () => computeAgingSnapshot(dataset.facts, asOf, dataset.segmentBy, dataset.filters),
+    [dataset, asOf]
+  );
+  const trend = useMemo(() => computeAgingTrend(dataset.facts, dataset.filters), [dataset]);
+  const rollForward = useMemo(() => forecastAgingRollForward(trend, horizon), [trend, horizon]);
+
+  // Flatten for recharts; projected periods are labelled so they stand out on the axis
+  const chartData = [
+    ...trend.map(point => ({ date: point.date, ...point.buckets })),
+    ...rollForward.forecast.map(point => ({ date: `${point.date}*`, ...point.buckets })),
+  ];
+
+  const grandTotal = sumBuckets(snapshot.total);
+  const segments = Object.keys(snapshot.bySegment).sort();
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <Clock className="w-4 h-4 text-indigo-600" />
+            AR Aging Analysis
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">อายุหนี้นับจาก duedatefirst ถึงวันที่อ้างอิง แยกตาม {describeSegmentKey(dataset.segmentBy)}</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+          ณ วันที่
+          <input
+            type="date"
+            value={asOf}
+            onChange={e => setAsOf(e.target.value)}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500"
+          />
+        </label>
+      </div>
+
+      {/* Aging by Segment */}
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+              <th className="text-left font-bold py-2">Segment</th>
+              {AGING_BUCKETS.map(b => <th key={b} className="font-bold py-2">{AGING_BUCKET_LABELS[b]}</th>)}
+              <th className="font-bold py-2">Total</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {segments.map(segment => {
+              const buckets = snapshot.bySegment[segment];
+              return (
+                <tr key={segment} className="border-t border-slate-100 text-right">
+                  <td className="text-left py-2.5 font-medium text-slate-700">{segment}</td>
+                  {AGING_BUCKETS.map(b => (
+                    <td key={b} className="py-2.5 font-mono text-slate-600">{formatAmount(buckets[b])}</td>
+                  ))}
+                  <td className="py-2.5 font-mono font-bold text-slate-800">{formatAmount(sumBuckets(buckets))}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-slate-200 text-right font-bold text-slate-800">
+              <td className="text-left py-2.5">Total</td>
+              {AGING_BUCKETS.map(b => (
+                <td key={b} className="py-2.5 font-mono">
+                  {formatAmount(snapshot.total[b])}
+                  <span className="block text-[10px] font-medium text-slate-400">
+                    {grandTotal === 0 ? '–' : `${((snapshot.total[b] / grandTotal) * 100).toFixed(1)}%`}
+                  </span>
+                </td>
+              ))}
+              <td className="py-2.5 font-mono">{formatAmount(grandTotal)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Bucket Trend + Roll-forward */}
+      {chartData.length > 0 && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Bucket Trend by Bill Period (* = Roll-forward Forecast)</p>
+            <div className="flex flex-wrap gap-3 text-[11px] text-slate-500">
+              {rollForward.rollRates.map(r => (
+                <span key={r.from}>{r.from} → {r.to}: <span className="font-mono font-semibold text-slate-700">{(r.rate * 100).toFixed(1)}%</span></span>
+              ))}
+            </div>
+          </div>
+          <div className="w-full h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} minTickGap={20} />
+                <YAxis tickFormatter={formatAmount} tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <Tooltip formatter={(value: number) => new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(value)} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: 12 }} />
+                {AGING_BUCKETS.map((b, i) => (
+                  <Bar key={b} dataKey={b} name={AGING_BUCKET_LABELS[b]} stackId="aging" fill={BUCKET_COLORS[i]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
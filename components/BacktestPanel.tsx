@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Target, Play } from 'lucide-react';
+import { MonthlyData, BacktestResult, ForecastMethod, ForecastOptions } from '../types';
+import { runBacktest, statisticalForecaster } from '../services/backtestService';
+import { FORECAST_METHOD_LABELS } from '../services/statisticalService';
+import { LLM_PROVIDERS } from '../services/forecastProviders';
+
+interface BacktestPanelProps {
+  history: MonthlyData[];
+  segmentName: string;
+  options: ForecastOptions;
+}
+
+const STATISTICAL_METHODS = (Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).filter(m => m !== 'auto');
+const AVAILABLE_LLMS = LLM_PROVIDERS.filter(p => p.isAvailable());
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${value.toFixed(1)}%`;
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ history, segmentName, options }) => {
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [includeAI, setIncludeAI] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results belong to one segment; clear them when the series changes
+  useEffect(() => {
+    setResults([]);
+    setError(null);
+  }, [history, options]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const backtestOptions = { horizon: options.horizon, minTrain: options.minHistory };
+      const runs: BacktestResult[] = [];
+      for (const method of STATISTICAL_METHODS) {
+        runs.push(await runBacktest(
+          history,
+          statisticalForecaster(method, options.historyWindow),
+          FORECAST_METHOD_LABELS[method],
+          backtestOptions,
+        ));
+      }
+      // AI providers are opt-in: each fold is a separate API call
+      if (includeAI) {
+        for (const provider of AVAILABLE_LLMS) {
+          runs.push(await runBacktest(
+            history,
+            async (train) => (await provider.forecast(train, segmentName, options, 'auto')).forecast,
+            provider.label,
+            backtestOptions,
+          ));
+        }
+      }
+      setResults(runs);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "ไม่สามารถทำ Backtest ได้");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const scored = results.filter(r => r.metrics.count > 0);
+  const best = scored.reduce<BacktestResult | null>((acc, r) => {
+    const key = (x: BacktestResult) => x.metrics.mape ?? Infinity;
+    return !acc || key(r) < key(acc) ? r : acc;
+  }, null);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm flex flex-col">
+      <h4 className="font-bold text-slate-800 mb-1 flex items-center justify-between flex-shrink-0">
+        <span className="flex items-center gap-2">
+          <Target className="w-4 h-4 text-indigo-600" />
+          Backtest Accuracy
+        </span>
+        <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-md uppercase tracking-wider">
+          Rolling Origin · {options.horizon}M
+        </span>
+      </h4>
+      <p className="text-xs text-slate-500 mb-4">
+        ซ่อนข้อมูล {options.horizon} เดือนล่าสุดซ้ำหลายรอบ แล้วพยากรณ์ใหม่เพื่อวัดความแม่นยำของแต่ละวิธี ({segmentName})
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="inline-flex items-center gap-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition-colors shadow-sm disabled:opacity-60 disabled:cursor-wait"
+        >
+          <Play className="w-4 h-4" />
+          {isRunning ? 'กำลังทดสอบ...' : 'Run Backtest'}
+        </button>
+        <label className={`flex items-center gap-2 text-xs font-medium ${AVAILABLE_LLMS.length > 0 ? 'text-slate-600' : 'text-slate-300'}`}>
+          <input
+            type="checkbox"
+            checked={includeAI}
+            onChange={e => setIncludeAI(e.target.checked)}
+            disabled={AVAILABLE_LLMS.length === 0 || isRunning}
+            className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          รวม AI ({AVAILABLE_LLMS.length > 0 ? AVAILABLE_LLMS.map(p => p.label).join(', ') : 'ไม่ได้ตั้งค่า'}) (ใช้ API หลายครั้ง)
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+                <th className="text-left font-bold py-2">Method</th>
+                <th className="font-bold py-2">MAPE</th>
+                <th className="font-bold py-2">sMAPE</th>
+                <th className="font-bold py-2">MAE</th>
+                <th className="font-bold py-2">RMSE</th>
+                <th className="font-bold py-2">Bias</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {results.map(r => (
+                <tr key={r.label} className={`border-t border-slate-100 text-right ${r === best ? 'bg-emerald-50/60' : ''}`}>
+                  <td className="text-left py-2.5 font-medium text-slate-700">
+                    {r.label}
+                    {r === best && <span className="ml-2 text-[10px] font-bold text-emerald-600 uppercase">Best</span>}
+                  </td>
+                  <td className="py-2.5 font-mono text-slate-800">{formatPercent(r.metrics.mape)}</td>
+                  <td className="py-2.5 font-mono text-slate-600">{formatPercent(r.metrics.smape)}</td>
+                  <td className="py-2.5 font-mono text-slate-600">{formatAmount(r.metrics.mae)}</td>
+                  <td className="py-2.5 font-mono text-slate-600">{formatAmount(r.metrics.rmse)}</td>
+                  <td className={`py-2.5 font-mono ${r.metrics.bias >= 0 ? 'text-amber-600' : 'text-sky-600'}`}>
+                    {r.metrics.bias >= 0 ? '+' : ''}{formatAmount(r.metrics.bias)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400 mt-3">
+            {results[0].folds.length} folds · Bias บวก = พยากรณ์สูงกว่าจริง
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, CheckCircle2, AlertTriangle, History } from 'lucide-react';
+import { CSVPreview, ColumnMapping, MappableField, SegmentDimension } from '../types';
+import { validateColumnMapping } from '../services/csvService';
+import { DIMENSION_LABELS } from '../services/segmentService';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  preview: CSVPreview;
+  initialMapping: ColumnMapping;
+  isRemembered: boolean; // Mapping was restored from a previous upload with the same headers
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<MappableField, string> = {
+  billPeriod: 'วันที่ (billPeriod)',
+  amount: 'ยอดเงิน (amount)',
+  duedatefirst: 'วันครบกำหนด (duedatefirst)',
+  ...DIMENSION_LABELS,
+};
+
+const REQUIRED_FIELDS: MappableField[] = ['billPeriod', 'amount'];
+const OPTIONAL_FIELDS: MappableField[] = [...(Object.keys(DIMENSION_LABELS) as SegmentDimension[]), 'duedatefirst'];
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName,
+  preview,
+  initialMapping,
+  isRemembered,
+  onConfirm,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const validation = useMemo(() => validateColumnMapping(preview, mapping), [preview, mapping]);
+
+  // Column index -> fields assigned to it, for the preview header badges
+  const assignedFields = useMemo(() => {
+    const map: Record<number, MappableField[]> = {};
+    (Object.keys(mapping) as MappableField[]).forEach(field => {
+      const index = mapping[field];
+      if (index === undefined) return;
+      (map[index] = map[index] || []).push(field);
+    });
+    return map;
+  }, [mapping]);
+
+  const handleChange = (field: MappableField) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = { ...mapping };
+    if (e.target.value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(e.target.value);
+    }
+    setMapping(next);
+  };
+
+  const renderFieldSelect = (field: MappableField, required: boolean) => (
+    <label key={field} className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+      <span>
+        {FIELD_LABELS[field]}
+        {required && <span className="text-rose-500 ml-0.5">*</span>}
+      </span>
+      <select
+        value={mapping[field] ?? ''}
+        onChange={handleChange(field)}
+        className={`px-3 py-2 bg-slate-50 border rounded-lg text-sm text-slate-700 outline-none focus:border-indigo-500 ${
+          required && mapping[field] === undefined ? 'border-rose-300' : 'border-slate-200'
+        }`}
+      >
+        <option value="">— ไม่ใช้ —</option>
+        {preview.headers.map((header, index) => (
+          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-xl shadow-indigo-100/50 p-6 sm:p-8 space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Columns className="w-5 h-5 text-indigo-600" />
+            จับคู่คอลัมน์ข้อมูล
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            {fileName} · ตัวคั่น <span className="font-mono">{preview.delimiter === '\t' ? 'TAB' : preview.delimiter}</span> · {preview.encoding.toUpperCase()}
+          </p>
+        </div>
+        {isRemembered && (
+          <span className="inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 px-3 py-1 rounded-full">
+            <History className="w-3.5 h-3.5" /> ใช้การจับคู่ที่บันทึกไว้สำหรับรูปแบบไฟล์นี้
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {REQUIRED_FIELDS.map(field => renderFieldSelect(field, true))}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {OPTIONAL_FIELDS.map(field => renderFieldSelect(field, false))}
+      </div>
+
+      {/* Preview */}
+      <div className="overflow-x-auto custom-scrollbar border border-slate-100 rounded-xl">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr>
+              {preview.headers.map((header, index) => (
+                <th key={index} className={`text-left px-3 py-2 font-semibold whitespace-nowrap ${assignedFields[index] ? 'text-indigo-700 bg-indigo-50' : 'text-slate-500'}`}>
+                  {header || `Column ${index + 1}`}
+                  {assignedFields[index] && (
+                    <span className="block text-[10px] font-bold uppercase tracking-wider text-indigo-500">
+                      {assignedFields[index].join(', ')}
+                    </span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-t border-slate-100">
+                {preview.headers.map((_, index) => (
+                  <td key={index} className={`px-3 py-1.5 whitespace-nowrap font-mono ${assignedFields[index] ? 'text-slate-800' : 'text-slate-400'}`}>
+                    {row[index] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <ul className="space-y-1 text-sm">
+          {validation.errors.map(message => (
+            <li key={message} className="flex items-start gap-2 text-rose-600">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {message}
+            </li>
+          ))}
+          {validation.warnings.map(message => (
+            <li key={message} className="flex items-start gap-2 text-amber-600">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 hover:text-slate-800 bg-slate-100 hover:bg-slate-200 px-4 py-2 rounded-lg transition-colors"
+        >
+          ยกเลิก
+        </button>
+        <button
+          onClick={() => onConfirm(mapping)}
+          disabled={validation.errors.length > 0}
+          className="inline-flex items-center gap-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-5 py-2 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+          ยืนยันและประมวลผล
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, Download, CheckCircle2 } from 'lucide-react';
+import { DataQualityReport, RowIssueKind } from '../types';
+import { ISSUE_KIND_LABELS, REJECTION_REASONS, rejectedRowCount, hasQualityIssues, qualityReportToCSV } from '../services/dataQualityService';
+import { downloadBlob, exportBaseName } from '../services/exportService';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  fileName?: string;
+  // Review step before forecasting; without these the panel is shown read-only on the dashboard
+  onContinue?: () => void;
+  onCancel?: () => void;
+}
+
+const ISSUE_PAGE_SIZE = 100;
+
+const formatNumber = (value: number) => new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(value);
+// Rejected rows are red; flagged-but-kept rows are amber
+const isRejection = (kind: RowIssueKind) => (REJECTION_REASONS as RowIssueKind[]).includes(kind);
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, fileName, onContinue, onCancel }) => {
+  const [kindFilter, setKindFilter] = useState<RowIssueKind | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(ISSUE_PAGE_SIZE);
+  const [isExpanded, setIsExpanded] = useState(onContinue !== undefined);
+
+  const rejected = rejectedRowCount(report);
+  const hasIssues = hasQualityIssues(report);
+  const issues = kindFilter === 'all' ? report.issues : report.issues.filter(issue => issue.kind === kindFilter);
+
+  const counts: { kind: RowIssueKind; count: number }[] = [
+    ...REJECTION_REASONS.map(kind => ({ kind, count: report.rejectedCounts[kind] })),
+    { kind: 'duplicate' as const, count: report.duplicateRows },
+    { kind: 'negative-amount' as const, count: report.negativeRows },
+  ].filter(c => c.count > 0);
+
+  const handleDownload = () => {
+    const blob = new Blob([qualityReportToCSV(report)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${exportBaseName(fileName ?? 'data', 'quality-report')}.csv`);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            {hasIssues
+              ? <ShieldAlert className="w-4 h-4 text-amber-500" />
+              : <ShieldCheck className="w-4 h-4 text-emerald-600" />}
+            Data Quality Report
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">
+            ใช้ได้ {formatNumber(report.acceptedRows)} จาก {formatNumber(report.totalRows)} แถว
+            {rejected > 0 && <span className="text-rose-600"> · ถูกข้าม {formatNumber(rejected)} แถว</span>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!onContinue && hasIssues && (
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="text-sm font-medium text-slate-600 hover:text-slate-800 bg-slate-100 hover:bg-slate-200 px-4 py-2 rounded-lg transition-colors"
+            >
+              {isExpanded ? 'ซ่อนรายละเอียด' : 'ดูรายละเอียด'}
+            </button>
+          )}
+          {hasIssues && (
+            <button
+              onClick={handleDownload}
+              className="inline-flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-4 py-2 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" /> ดาวน์โหลด CSV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Counts per issue type */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {counts.map(({ kind, count }) => (
+          <button
+            key={kind}
+            onClick={() => { setKindFilter(kindFilter === kind ? 'all' : kind); setVisibleCount(ISSUE_PAGE_SIZE); setIsExpanded(true); }}
+            className={`text-left p-3 rounded-xl border transition-colors ${kindFilter === kind ? 'border-indigo-300 bg-indigo-50' : 'border-slate-100 bg-slate-50 hover:border-slate-200'}`}
+          >
+            <p className="text-[11px] font-medium text-slate-500">{ISSUE_KIND_LABELS[kind]}</p>
+            <p className={`text-lg font-bold tabular-nums ${isRejection(kind) ? 'text-rose-600' : 'text-amber-600'}`}>{formatNumber(count)}</p>
+          </button>
+        ))}
+        {report.gaps.length > 0 && (
+          <div className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+            <p className="text-[11px] font-medium text-slate-500">ช่วงเดือนที่ขาดหาย</p>
+            <p className="text-lg font-bold tabular-nums text-amber-600">{formatNumber(report.gaps.length)}</p>
+          </div>
+        )}
+      </div>
+
+      {report.negativeRows > 0 && (
+        <p className="text-xs text-slate-500">
+          ยอดติดลบ / ใบลดหนี้รวม <span className="font-mono font-semibold text-slate-700">{formatNumber(report.negativeTotal)}</span> ถูกรวมในการพยากรณ์ ส่วนแถวซ้ำถูกนับทุกแถว
+        </p>
+      )}
+
+      {isExpanded && hasIssues && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+          {/* Row-level issues */}
+          <div className="lg:col-span-2 border border-slate-100 rounded-xl max-h-[320px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left text-slate-500">
+                  <th className="px-3 py-2 font-semibold">บรรทัด</th>
+                  <th className="px-3 py-2 font-semibold">ปัญหา</th>
+                  <th className="px-3 py-2 font-semibold">รายละเอียด</th>
+                </tr>
+              </thead>
+              <tbody>
+                {issues.slice(0, visibleCount).map((issue, index) => (
+                  <tr key={`${issue.line}-${issue.kind}-${index}`} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 font-mono text-slate-500 tabular-nums">{issue.line}</td>
+                    <td className={`px-3 py-1.5 font-medium ${isRejection(issue.kind) ? 'text-rose-600' : 'text-amber-600'}`}>{ISSUE_KIND_LABELS[issue.kind]}</td>
+                    <td className="px-3 py-1.5 font-mono text-slate-600">{issue.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {issues.length > visibleCount && (
+              <button
+                onClick={() => setVisibleCount(visibleCount + ISSUE_PAGE_SIZE)}
+                className="w-full text-xs font-medium text-indigo-600 hover:bg-indigo-50 py-2 border-t border-slate-100"
+              >
+                แสดงเพิ่ม ({formatNumber(issues.length - visibleCount)} รายการ)
+              </button>
+            )}
+            {report.issuesTruncated && (
+              <p className="text-[11px] text-slate-400 px-3 py-2 border-t border-slate-100">แสดงเฉพาะ {formatNumber(report.issues.length)} รายการแรก</p>
+            )}
+          </div>
+
+          {/* Month gaps */}
+          <div className="border border-slate-100 rounded-xl max-h-[320px] overflow-y-auto custom-scrollbar">
+            <p className="text-[11px] font-bold text-slate-500 uppercase tracking-wider px-3 py-2 bg-slate-50 sticky top-0">Missing Months</p>
+            {report.gaps.length === 0 ? (
+              <p className="text-xs text-slate-400 px-3 py-2">ไม่มีเดือนที่ขาดหาย</p>
+            ) : (
+              <ul className="text-xs divide-y divide-slate-100">
+                {report.gaps.map(gap => (
+                  <li key={`${gap.segment}-${gap.from}`} className="px-3 py-1.5 flex justify-between gap-2">
+                    <span className="font-medium text-slate-700">{gap.segment}</span>
+                    <span className="font-mono text-slate-500">
+                      {gap.from === gap.to ? gap.from : `${gap.from} – ${gap.to}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {onContinue && (
+        <div className="flex justify-end gap-3">
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="text-sm font-medium text-slate-600 hover:text-slate-800 bg-slate-100 hover:bg-slate-200 px-4 py-2 rounded-lg transition-colors"
+            >
+              ยกเลิก
+            </button>
+          )}
+          <button
+            onClick={onContinue}
+            className="inline-flex items-center gap-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-5 py-2 rounded-lg transition-colors shadow-sm"
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            ดำเนินการพยากรณ์ต่อ
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
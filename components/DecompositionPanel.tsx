@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { Waves } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MonthlyData, DecompositionMethod } from '../types';
+import {
+  decompose,
+  seasonalStrength,
+  describeSeasonalStrength,
+  canEstimateSeasonality,
+  DECOMPOSITION_METHOD_LABELS,
+} from '../services/decompositionService';
+
+interface DecompositionPanelProps {
+  history: MonthlyData[]; // Actuals as uploaded, before outlier adjustment
+}
+
+const COMPONENTS: { key: 'trend' | 'seasonal' | 'remainder'; label: string; color: string }[] = [
+  { key: 'trend', label: 'Trend', color: '#6366f1' },
+  { key: 'seasonal', label: 'Seasonal', color: '#10b981' },
+  { key: 'remainder', label: 'Residual', color: '#94a3b8' },
+];
+
+const formatCompact = (value: number) => new Intl.NumberFormat('en', { notation: 'compact', compactDisplay: 'short' }).format(value);
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(value);
+
+export const DecompositionPanel: React.FC<DecompositionPanelProps> = ({ history }) => {
+  const [method, setMethod] = useState<DecompositionMethod>('stl');
+
+  const decomposition = useMemo(() => decompose(history.map(item => item.amount), method), [history, method]);
+  const hasSeasonality = canEstimateSeasonality(history.length);
+  const strength = hasSeasonality ? seasonalStrength(decomposition) : null;
+
+  const chartData = history.map((item, i) => ({
+    date: item.date,
+    trend: decomposition.trend[i],
+    seasonal: decomposition.seasonal[i],
+    remainder: decomposition.remainder[i],
+  }));
+
+  return (
+    <div className="px-4 sm:px-6 pb-6 pt-4 border-t border-slate-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <Waves className="w-4 h-4 text-indigo-600" />
+            Seasonal Decomposition
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">
+            {strength === null
+              ? `ต้องมีข้อมูลอย่างน้อย 24 เดือนเพื่อแยกฤดูกาล (มี ${history.length} เดือน)`
+              : <>Seasonal strength <span className="font-mono font-semibold text-slate-700">{strength.toFixed(2)}</span> · {describeSeasonalStrength(strength)}</>}
+          </p>
+        </div>
+        <div className="inline-flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+          {(Object.keys(DECOMPOSITION_METHOD_LABELS) as DecompositionMethod[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMethod(m)}
+              className={`px-3 py-1 rounded-md transition-colors ${method === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {DECOMPOSITION_METHOD_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {COMPONENTS.filter(c => hasSeasonality || c.key !== 'seasonal').map(component => (
+          <div key={component.key}>
+            <p className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">{component.label}</p>
+            <div className="w-full h-[120px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} syncId="decomposition" margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" hide={component.key !== 'remainder'} tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} minTickGap={30} />
+                  <YAxis tickFormatter={formatCompact} tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} width={50} />
+                  <Tooltip formatter={(value: number) => formatAmount(value)} />
+                  {component.key !== 'trend' && <ReferenceLine y={0} stroke="#cbd5e1" />}
+                  <Line
+                    type="monotone"
+                    dataKey={component.key}
+                    name={component.label}
+                    stroke={component.color}
+                    strokeWidth={component.key === 'remainder' ? 1 : 2}
+                    dot={component.key === 'remainder' ? { r: 2, fill: component.color, strokeWidth: 0 } : false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, Printer, Loader2 } from 'lucide-react';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; icon: React.ElementType; title: string }[] = [
+  { format: 'csv', label: 'CSV', icon: Download, title: 'ยอดจริงและพยากรณ์ทุกกลุ่มในไฟล์ CSV' },
+  { format: 'xlsx', label: 'Excel', icon: FileSpreadsheet, title: 'Workbook แยกชีตตามกลุ่มลูกหนี้' },
+  { format: 'pdf', label: 'PDF', icon: Printer, title: 'รายงานสำหรับพิมพ์หรือบันทึกเป็น PDF' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "ไม่สามารถส่งออกข้อมูลได้");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1.5">
+        {OPTIONS.map(({ format, label, icon: Icon, title }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={disabled || busy !== null}
+            title={title}
+            className="inline-flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-indigo-700 bg-slate-50 hover:bg-indigo-50 border border-slate-200 px-2.5 py-1 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {busy === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Icon className="w-3.5 h-3.5" />}
+            {label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+};
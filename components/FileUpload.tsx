@@ -1,12 +1,14 @@
 import React, { useRef } from 'react';
 import { UploadCloud } from 'lucide-react';
+import { ParseProgress } from '../types';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   isLoading: boolean;
+  progress?: ParseProgress | null;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading, progress }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -49,7 +51,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading
         type="file"
         ref={fileInputRef}
         onChange={handleChange}
-        accept=".csv"
+        accept=".csv,.tsv,.txt"
         className="hidden"
         disabled={isLoading}
       />
@@ -74,10 +76,24 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading
             ลากไฟล์มาวางที่นี่ หรือคลิกเพื่อเลือกไฟล์
             <br/>
             <span className="text-xs text-slate-400 mt-1 inline-block">
-               (Required: billPeriod, amount, accountclass)
+               (billPeriod, amount, accountclass — จับคู่คอลัมน์อื่นได้ในขั้นตอนถัดไป)
             </span>
           </p>
         </div>
+
+        {isLoading && progress && progress.totalBytes > 0 && (
+          <div className="w-full max-w-sm">
+            <div className="h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 transition-all duration-200"
+                style={{ width: `${(progress.bytesRead / progress.totalBytes) * 100}%` }}
+              />
+            </div>
+            <p className="mt-2 text-xs text-slate-500 tabular-nums">
+              {Math.round((progress.bytesRead / progress.totalBytes) * 100)}% · {new Intl.NumberFormat('th-TH').format(progress.rows)} แถว
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -13,12 +13,28 @@ import {
 } from 'recharts';
 import { ChartDataPoint } from '../types';
 
+const SERIES_LABELS: Record<string, string> = {
+  actual: 'Actual',
+  forecast: 'Forecast',
+  range80: '80% Interval',
+  range95: '95% Interval',
+  adjusted: 'Adjusted',
+};
+
+// What-if scenario drawn over the base forecast
+export interface ScenarioOverlay {
+  id: string;
+  name: string;
+  color: string;
+}
+
 interface ForecastChartProps {
   data: ChartDataPoint[];
   splitDate?: string; // The date where history ends and forecast begins
+  scenarios?: ScenarioOverlay[];
 }
 
-export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate }) => {
+export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate, scenarios = [] }) => {
   
   const formatYAxis = (value: number) => {
     return new Intl.NumberFormat('en', { notation: "compact", compactDisplay: "short" }).format(value);
@@ -29,8 +45,21 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate })
     return date;
   };
 
+  // Outliers get a red marker and gap-filled months a hollow amber one on the actual line
+  const renderActualDot = ({ cx, cy, payload, index }: any) => {
+    if (cx === undefined || cy === undefined || payload.missing) return <g key={index} />;
+    if (payload.outlier) return <circle key={index} cx={cx} cy={cy} r={5} stroke="white" strokeWidth={1.5} fill="#e11d48" />;
+    if (payload.filled) return <circle key={index} cx={cx} cy={cy} r={4} stroke="#f59e0b" strokeWidth={2} fill="white" />;
+    return <g key={index} />;
+  };
+
+  const hasAdjustments = data.some(point => point.adjusted !== undefined && point.adjusted !== null);
+
+  const missingDates = data.filter(point => point.missing).map(point => point.date);
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
+      const point: ChartDataPoint = payload[0].payload;
       const isForecast = payload.some((p: any) => p.dataKey === 'forecast' && p.value !== null && p.payload.actual === null);
       
       return (
@@ -42,22 +71,39 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate })
                 Forecast
               </span>
             )}
+            {point.outlier && (
+              <span className="text-[10px] bg-rose-50 text-rose-600 px-2 py-0.5 rounded-full uppercase tracking-wider font-bold border border-rose-100">
+                Outlier
+              </span>
+            )}
+            {point.filled && (
+              <span className="text-[10px] bg-amber-50 text-amber-600 px-2 py-0.5 rounded-full uppercase tracking-wider font-bold border border-amber-100">
+                {point.missing ? 'No Data' : 'Gap-filled'}
+              </span>
+            )}
           </p>
-          {payload.map((entry: any, index: number) => (
-            entry.value !== null && (
+          {payload.map((entry: any, index: number) => {
+            if (entry.value === null || entry.value === undefined) return null;
+            // Skip the zero-width band at the junction point
+            if (Array.isArray(entry.value) && entry.value[0] === entry.value[1]) return null;
+
+            const formatValue = (v: number) => new Intl.NumberFormat('th-TH', { style: 'decimal', maximumFractionDigits: 0 }).format(v);
+            const isRange = Array.isArray(entry.value);
+
+            return (
               <div key={index} className="flex items-center justify-between gap-8 py-1">
                 <div className="flex items-center gap-2">
                     <div className="w-2 h-2 rounded-full shadow-sm" style={{ backgroundColor: entry.color }} />
                     <span className="text-slate-500 font-medium text-xs uppercase tracking-wide">
-                    {entry.name === 'actual' ? 'Actual' : 'Forecast'}
+                    {SERIES_LABELS[entry.dataKey] ?? entry.name}
                     </span>
                 </div>
-                <span className="font-mono font-bold text-slate-800 text-base tabular-nums">
-                  {new Intl.NumberFormat('th-TH', { style: 'decimal', minimumFractionDigits: 0 }).format(entry.value)}
+                <span className={`font-mono tabular-nums ${isRange ? 'text-slate-500 text-xs' : 'font-bold text-slate-800 text-base'}`}>
+                  {isRange ? `${formatValue(entry.value[0])} – ${formatValue(entry.value[1])}` : formatValue(entry.value)}
                 </span>
               </div>
-            )
-          ))}
+            );
+          })}
         </div>
       );
     }
@@ -104,6 +150,10 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate })
             wrapperStyle={{ paddingBottom: '20px' }}
           />
           
+          {missingDates.map(date => (
+             <ReferenceLine key={date} x={date} stroke="#fcd34d" strokeDasharray="2 4" />
+          ))}
+
           {splitDate && (
              <ReferenceLine 
                 x={splitDate} 
@@ -121,13 +171,49 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate })
             strokeWidth={2.5}
             fillOpacity={1} 
             fill="url(#colorActual)" 
+            dot={renderActualDot}
             activeDot={{ r: 6, strokeWidth: 0, fill: "#4f46e5" }}
           />
           
+          <Area 
+            type="monotone" 
+            dataKey="range95" 
+            name="95% Interval"
+            stroke="none" 
+            fill="#10b981" 
+            fillOpacity={0.08} 
+            activeDot={false}
+            connectNulls={false}
+            animationDuration={1500}
+          />
+
+          <Area 
+            type="monotone" 
+            dataKey="range80" 
+            name="80% Interval"
+            stroke="none" 
+            fill="#10b981" 
+            fillOpacity={0.18} 
+            activeDot={false}
+            connectNulls={false}
+            animationDuration={1500}
+          />
+
+          {hasAdjustments && (
+            <Line
+              dataKey="adjusted"
+              name="Adjusted"
+              stroke="none"
+              dot={{ stroke: '#e11d48', strokeWidth: 2, r: 4, fill: 'white' }}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+          )}
+
           <Line 
             type="monotone" 
             dataKey="forecast" 
-            name="AI Forecast"
+            name="Forecast"
             stroke="#10b981" 
             strokeWidth={2.5} 
             strokeDasharray="6 6" 
@@ -135,6 +221,21 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data, splitDate })
             activeDot={{ r: 6, strokeWidth: 0, fill: '#10b981' }}
             animationDuration={1500}
           />
+
+          {scenarios.map(scenario => (
+            <Line
+              key={scenario.id}
+              type="monotone"
+              dataKey={(point: ChartDataPoint) => point.scenarios?.[scenario.id] ?? null}
+              name={scenario.name}
+              stroke={scenario.color}
+              strokeWidth={2}
+              strokeDasharray="3 3"
+              dot={false}
+              activeDot={{ r: 5, strokeWidth: 0, fill: scenario.color }}
+              isAnimationActive={false}
+            />
+          ))}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
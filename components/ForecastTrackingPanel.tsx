@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { RunAccuracy } from '../types';
+import { FORECAST_PROVIDERS } from '../services/forecastProviders';
+import { FORECAST_METHOD_LABELS } from '../services/statisticalService';
+
+interface ForecastTrackingPanelProps {
+  accuracy: RunAccuracy[]; // Oldest origin first
+  segmentName: string;
+}
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const formatPercent = (value: number | null) => value === null ? '–' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const describeRun = ({ run, origin }: RunAccuracy) => {
+  const engine = run.engine === 'statistical' ? FORECAST_METHOD_LABELS[run.method] : FORECAST_PROVIDERS[run.engine]?.label ?? run.engine;
+  return `${origin} · ${engine}`;
+};
+
+export const ForecastTrackingPanel: React.FC<ForecastTrackingPanelProps> = ({ accuracy, segmentName }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Default to the most recent origin; the selection may vanish when the segment changes
+  const selected = accuracy.find(a => a.run.id === selectedId) ?? accuracy[accuracy.length - 1];
+
+  const historyData = accuracy.map(a => ({
+    label: describeRun(a),
+    mape: a.metrics.mape,
+    drift: a.drift,
+  }));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-indigo-600" />
+            Forecast vs Actual
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">
+            เทียบผลพยากรณ์ที่บันทึกไว้ {accuracy.length} ครั้งกับยอดจริงในไฟล์นี้ ({segmentName})
+          </p>
+        </div>
+        <select
+          value={selected.run.id}
+          onChange={e => setSelectedId(e.target.value)}
+          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 outline-none focus:border-indigo-500"
+        >
+          {accuracy.map(a => (
+            <option key={a.run.id} value={a.run.id}>{describeRun(a)} ({new Date(a.run.createdAt).toLocaleDateString('th-TH')})</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Accuracy per forecast origin */}
+      {accuracy.length > 1 && (
+        <div className="w-full h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={historyData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} minTickGap={20} />
+              <YAxis tickFormatter={(v: number) => `${v}%`} tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} width={45} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <ReferenceLine y={0} stroke="#cbd5e1" />
+              <Line type="monotone" dataKey="mape" name="MAPE" stroke="#6366f1" strokeWidth={2} dot={{ r: 3 }} connectNulls isAnimationActive={false} />
+              <Line type="monotone" dataKey="drift" name="Cumulative drift" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 3" dot={{ r: 3 }} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
+        <div className="bg-slate-50 rounded-xl p-3">
+          <p className="text-slate-400 font-bold uppercase tracking-wider text-[10px]">MAPE</p>
+          <p className="font-mono font-semibold text-slate-800 text-sm">{selected.metrics.mape === null ? '–' : `${selected.metrics.mape.toFixed(1)}%`}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <p className="text-slate-400 font-bold uppercase tracking-wider text-[10px]">Cumulative drift</p>
+          <p className={`font-mono font-semibold text-sm ${(selected.drift ?? 0) >= 0 ? 'text-amber-600' : 'text-sky-600'}`}>{formatPercent(selected.drift)}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <p className="text-slate-400 font-bold uppercase tracking-wider text-[10px]">Bias</p>
+          <p className="font-mono font-semibold text-slate-800 text-sm">{formatAmount(selected.metrics.bias)}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <p className="text-slate-400 font-bold uppercase tracking-wider text-[10px]">Months realized</p>
+          <p className="font-mono font-semibold text-slate-800 text-sm">{selected.points.length}/{selected.run.result.forecast.length}</p>
+        </div>
+      </div>
+
+      {/* Realized error per month of the selected run */}
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+              <th className="text-left font-bold py-2">Month</th>
+              <th className="font-bold py-2">Forecast</th>
+              <th className="font-bold py-2">Actual</th>
+              <th className="font-bold py-2">Error</th>
+              <th className="font-bold py-2">Error %</th>
+              <th className="font-bold py-2">Cumulative</th>
+              <th className="font-bold py-2">In 80%</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {selected.points.map(point => (
+              <tr key={point.date} className="border-t border-slate-100 text-right">
+                <td className="text-left py-2 font-medium text-slate-700">
+                  {point.date} <span className="text-[10px] text-slate-400">+{point.step}M</span>
+                </td>
+                <td className="py-2 font-mono text-slate-600">{formatAmount(point.forecast)}</td>
+                <td className="py-2 font-mono text-slate-800">{formatAmount(point.actual)}</td>
+                <td className={`py-2 font-mono ${point.error >= 0 ? 'text-amber-600' : 'text-sky-600'}`}>{formatAmount(point.error)}</td>
+                <td className="py-2 font-mono text-slate-600">{formatPercent(point.percentError)}</td>
+                <td className="py-2 font-mono text-slate-600">{formatPercent(point.cumulativePercent)}</td>
+                <td className="py-2 text-slate-500">{point.withinInterval80 === null ? '–' : point.withinInterval80 ? '✓' : '✗'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-slate-400">Error = Forecast − Actual (บวก = พยากรณ์สูงเกินจริง) · เดือนที่ไม่มีข้อมูลต้นทางไม่นำมาคิด</p>
+    </div>
+  );
+};
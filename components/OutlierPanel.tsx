@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Zap, RefreshCw } from 'lucide-react';
+import { OutlierFlag, OutlierDecisions, OutlierMethod } from '../types';
+import { OUTLIER_METHOD_LABELS } from '../services/outlierService';
+
+interface OutlierPanelProps {
+  outliers: OutlierFlag[];
+  decisions: OutlierDecisions; // Decisions the current forecast was run with
+  method: OutlierMethod;
+  disabled: boolean;
+  onApply: (decisions: OutlierDecisions) => void;
+}
+
+type Choice = 'accept' | 'keep' | 'override';
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(value);
+
+const choiceOf = (decision: number | null | undefined): Choice => {
+  if (decision === undefined) return 'accept';
+  return decision === null ? 'keep' : 'override';
+};
+
+export const OutlierPanel: React.FC<OutlierPanelProps> = ({ outliers, decisions, method, disabled, onApply }) => {
+  // Edits are kept locally until applied, so each change doesn't trigger a new forecast
+  const [draft, setDraft] = useState<OutlierDecisions>(decisions);
+  useEffect(() => setDraft(decisions), [decisions]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(decisions);
+
+  const setChoice = (flag: OutlierFlag, choice: Choice) => {
+    const next = { ...draft };
+    if (choice === 'accept') delete next[flag.date];
+    if (choice === 'keep') next[flag.date] = null;
+    if (choice === 'override') next[flag.date] = Math.round(flag.expected);
+    setDraft(next);
+  };
+
+  const setOverride = (date: string, value: string) => {
+    const amount = parseFloat(value.replace(/,/g, ''));
+    if (!isNaN(amount)) setDraft({ ...draft, [date]: amount });
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <Zap className="w-4 h-4 text-rose-500" />
+            Outlier Adjustments
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">
+            พบ {outliers.length} เดือนที่ผิดปกติ ({OUTLIER_METHOD_LABELS[method]}) การพยากรณ์ใช้ค่าที่ปรับแล้วตามที่เลือก
+          </p>
+        </div>
+        <button
+          onClick={() => onApply(draft)}
+          disabled={disabled || !isDirty}
+          className="inline-flex items-center gap-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className="w-4 h-4" />
+          ใช้การปรับและพยากรณ์ใหม่
+        </button>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+              <th className="text-left font-bold py-2">Month</th>
+              <th className="font-bold py-2">Actual</th>
+              <th className="font-bold py-2">Suggested</th>
+              <th className="font-bold py-2">Score</th>
+              <th className="text-left font-bold py-2 pl-6">Use</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {outliers.map(flag => {
+              const choice = choiceOf(draft[flag.date]);
+              return (
+                <tr key={flag.date} className="border-t border-slate-100 text-right">
+                  <td className="text-left py-2.5 font-medium text-slate-700">{flag.date}</td>
+                  <td className="py-2.5 font-mono text-rose-600">{formatAmount(flag.actual)}</td>
+                  <td className="py-2.5 font-mono text-slate-600">{formatAmount(flag.expected)}</td>
+                  <td className="py-2.5 font-mono text-slate-400">{flag.score.toFixed(1)}×</td>
+                  <td className="py-2.5 pl-6 text-left">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={choice}
+                        onChange={e => setChoice(flag, e.target.value as Choice)}
+                        disabled={disabled}
+                        className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 outline-none focus:border-indigo-500"
+                      >
+                        <option value="accept">ค่าที่แนะนำ</option>
+                        <option value="keep">ค่าจริง (ไม่ปรับ)</option>
+                        <option value="override">กำหนดเอง</option>
+                      </select>
+                      {choice === 'override' && (
+                        <input
+                          type="number"
+                          defaultValue={draft[flag.date] ?? ''}
+                          onChange={e => setOverride(flag.date, e.target.value)}
+                          disabled={disabled}
+                          className="w-28 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 outline-none focus:border-indigo-500"
+                        />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
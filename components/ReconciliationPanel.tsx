@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { ParsedDataSet, ForecastResult, SegmentForecastSummary, ReconciliationMethod, ForecastPoint } from '../types';
+import { reconcileForecasts, coherenceGap, RECONCILIATION_LABELS } from '../services/reconciliationService';
+
+interface ReconciliationPanelProps {
+  dataset: ParsedDataSet;
+  totalForecast: ForecastResult;
+  segmentResults: SegmentForecastSummary[];
+}
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const sumOf = (series: ForecastPoint[]) => series.reduce((acc, item) => acc + item.amount, 0);
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ dataset, totalForecast, segmentResults }) => {
+  const [method, setMethod] = useState<ReconciliationMethod>('mint');
+
+  const classForecasts = useMemo(() => {
+    const map: Record<string, ForecastPoint[]> = {};
+    segmentResults.forEach(r => {
+      if (r.result) map[r.segment] = r.result.forecast;
+    });
+    return map;
+  }, [segmentResults]);
+
+  const reconciled = useMemo(
+    () => reconcileForecasts(dataset, totalForecast.forecast, classForecasts, method),
+    [dataset, totalForecast, classForecasts, method]
+  );
+
+  const gapBefore = coherenceGap(totalForecast.forecast, classForecasts);
+  const failedClasses = segmentResults.filter(r => !r.result).map(r => r.segment);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <GitMerge className="w-4 h-4 text-indigo-600" />
+            Hierarchical Reconciliation
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">
+            ปรับให้ยอดพยากรณ์ราย Class รวมกันเท่ากับยอด Total Portfolio
+            · ส่วนต่างก่อนปรับ (สูงสุดต่อเดือน): <span className="font-mono font-semibold text-rose-600">{formatAmount(gapBefore)}</span>
+          </p>
+        </div>
+        <select
+          value={method}
+          onChange={e => setMethod(e.target.value as ReconciliationMethod)}
+          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 font-medium outline-none focus:border-indigo-500"
+        >
+          {(Object.keys(RECONCILIATION_LABELS) as ReconciliationMethod[]).map(m => (
+            <option key={m} value={m}>{RECONCILIATION_LABELS[m]}</option>
+          ))}
+        </select>
+      </div>
+
+      {failedClasses.length > 0 && (
+        <p className="text-xs text-amber-600 mb-3">ไม่รวม Class ที่พยากรณ์ไม่สำเร็จ: {failedClasses.join(', ')}</p>
+      )}
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+              <th className="text-left font-bold py-2">Segment</th>
+              <th className="font-bold py-2">Base</th>
+              <th className="font-bold py-2">Reconciled</th>
+              <th className="font-bold py-2">Adjustment</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {Object.keys(reconciled.byClass).map(cls => {
+              const base = sumOf(classForecasts[cls]);
+              const after = sumOf(reconciled.byClass[cls]);
+              return (
+                <tr key={cls} className="border-t border-slate-100 text-right">
+                  <td className="text-left py-2.5 font-medium text-slate-700">{cls}</td>
+                  <td className="py-2.5 font-mono text-slate-500">{formatAmount(base)}</td>
+                  <td className="py-2.5 font-mono font-bold text-indigo-600">{formatAmount(after)}</td>
+                  <td className={`py-2.5 font-mono ${after - base >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {after - base >= 0 ? '+' : ''}{formatAmount(after - base)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-slate-200 text-right font-bold text-slate-800">
+              <td className="text-left py-2.5">Total Portfolio</td>
+              <td className="py-2.5 font-mono text-slate-500">{formatAmount(sumOf(totalForecast.forecast))}</td>
+              <td className="py-2.5 font-mono text-indigo-600">{formatAmount(sumOf(reconciled.total))}</td>
+              <td className="py-2.5 font-mono">
+                {formatAmount(sumOf(reconciled.total) - sumOf(totalForecast.forecast))}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
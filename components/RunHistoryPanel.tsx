@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { History, FolderOpen, Trash2 } from 'lucide-react';
+import { ForecastRunSummary } from '../types';
+import { getRunStore, RUN_STORE_LABELS } from '../services/runStore';
+import { FORECAST_PROVIDERS } from '../services/forecastProviders';
+import { FORECAST_METHOD_LABELS } from '../services/statisticalService';
+
+interface RunHistoryPanelProps {
+  onOpen: (runId: string) => void;
+  disabled?: boolean;
+}
+
+const RUN_LIMIT = 20;
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const formatDate = (iso: string) => new Date(iso).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeEngine = (run: ForecastRunSummary) => run.engine === 'statistical'
+  ? FORECAST_METHOD_LABELS[run.method]
+  : `${FORECAST_PROVIDERS[run.engine]?.label ?? run.engine} · ${run.model}`;
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onOpen, disabled }) => {
+  const [runs, setRuns] = useState<ForecastRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const store = getRunStore();
+
+  useEffect(() => {
+    let cancelled = false;
+    store.listRuns(RUN_LIMIT)
+      .then(list => { if (!cancelled) setRuns(list); })
+      .catch((err: any) => {
+        console.error(err);
+        if (!cancelled) setError(err.message || "ไม่สามารถโหลดประวัติการพยากรณ์ได้");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await store.deleteRun(id);
+      setRuns(runs.filter(run => run.id !== id));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "ไม่สามารถลบผลพยากรณ์ได้");
+    }
+  };
+
+  if (!isLoading && runs.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2">
+          <History className="w-4 h-4 text-indigo-600" />
+          ประวัติการพยากรณ์
+        </h4>
+        <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-md uppercase tracking-wider">
+          {RUN_STORE_LABELS[store.backend]}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+      {isLoading && <p className="text-sm text-slate-400">กำลังโหลด...</p>}
+
+      {runs.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {runs.map(run => (
+            <li key={run.id} className="flex items-center gap-4 py-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-700 truncate">
+                  {run.fileName} · {run.segment === 'ALL' ? 'Total Portfolio' : run.segment}
+                </p>
+                <p className="text-xs text-slate-400 truncate">
+                  {formatDate(run.createdAt)} · {describeEngine(run)} · {run.horizon} เดือน · รวม {formatAmount(run.total)}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpen(run.id)}
+                disabled={disabled}
+                className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <FolderOpen className="w-3.5 h-3.5" /> เปิด
+              </button>
+              <button
+                onClick={() => handleDelete(run.id)}
+                disabled={disabled}
+                className="text-slate-400 hover:text-rose-600 disabled:opacity-50"
+                title="ลบ"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Plus, Trash2, Eye, EyeOff, X, AlertTriangle } from 'lucide-react';
+import { Scenario, ScenarioSeries, ScenarioShock, ForecastPoint } from '../types';
+import { createScenario, SCENARIO_COLORS } from '../services/scenarioService';
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  series: ScenarioSeries[]; // Scenarios applied to the selected segment, same order as 'scenarios'
+  base: ForecastPoint[];
+  segment: string; // 'ALL' or the selected segment
+  availableClasses: string[];
+  onChange: (scenarios: Scenario[]) => void;
+}
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const formatDelta = (value: number, base: number) => {
+  if (base === 0) return '–';
+  const pct = ((value - base) / Math.abs(base)) * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+};
+
+const inputClass = 'px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 outline-none focus:border-indigo-500';
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenarios, series, base, segment, availableClasses, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(scenarios[0]?.id ?? null);
+  const [newShock, setNewShock] = useState<ScenarioShock>({ date: base[0]?.date ?? '', kind: 'percent', value: 0 });
+  const [overrideClass, setOverrideClass] = useState<string>('');
+
+  const editing = scenarios.find(s => s.id === editingId) ?? null;
+  // The forecast months change with the horizon; fall back to the first one
+  const shockDate = base.some(point => point.date === newShock.date) ? newShock.date : base[0]?.date ?? '';
+  const baseTotal = base.reduce((acc, item) => acc + item.amount, 0);
+
+  const update = (id: string, patch: Partial<Scenario>) => {
+    onChange(scenarios.map(s => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const handleAdd = () => {
+    const scenario = createScenario(`Scenario ${scenarios.length + 1}`);
+    onChange([...scenarios, scenario]);
+    setEditingId(scenario.id);
+  };
+
+  const handleRemove = (id: string) => {
+    const remaining = scenarios.filter(s => s.id !== id);
+    onChange(remaining);
+    setEditingId(remaining[0]?.id ?? null);
+  };
+
+  const numberValue = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    return isNaN(value) ? 0 : value;
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-indigo-600" />
+            Scenario Planning
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">ปรับการเติบโต เหตุการณ์รายเดือน และค่าเฉพาะกลุ่ม เทียบกับ Base forecast</p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="inline-flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" /> เพิ่ม Scenario
+        </button>
+      </div>
+
+      {/* Scenario chips */}
+      <div className="flex flex-wrap gap-2">
+        {scenarios.map((scenario, i) => (
+          <div
+            key={scenario.id}
+            className={`inline-flex items-center gap-2 pl-3 pr-1 py-1 rounded-full border text-xs font-medium cursor-pointer ${scenario.id === editingId ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:border-slate-300'}`}
+            onClick={() => setEditingId(scenario.id)}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }} />
+            {scenario.name}
+            <button
+              onClick={e => { e.stopPropagation(); update(scenario.id, { visible: !scenario.visible }); }}
+              className="p-1 rounded-full hover:bg-white text-slate-400 hover:text-slate-700"
+              title={scenario.visible ? 'ซ่อนจากกราฟ' : 'แสดงบนกราฟ'}
+            >
+              {scenario.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Editor */}
+      {editing && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-5 p-4 bg-slate-50/60 border border-slate-100 rounded-2xl text-xs text-slate-500 font-medium">
+          <div className="space-y-3">
+            <label className="flex flex-col gap-1">
+              ชื่อ Scenario
+              <input value={editing.name} onChange={e => update(editing.id, { name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              การเติบโตเทียบ Base (%)
+              <input type="number" step="0.5" value={editing.growthPercent} onChange={e => update(editing.id, { growthPercent: numberValue(e) })} className={inputClass} />
+            </label>
+            <button
+              onClick={() => handleRemove(editing.id)}
+              className="inline-flex items-center gap-1.5 text-rose-600 hover:text-rose-800"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> ลบ Scenario
+            </button>
+          </div>
+
+          {/* One-off shocks */}
+          <div className="space-y-2">
+            <p>เหตุการณ์เฉพาะเดือน</p>
+            {editing.shocks.map((shock, index) => (
+              <div key={index} className="flex items-center justify-between gap-2 bg-white border border-slate-100 rounded-lg px-2 py-1">
+                <span className="font-mono text-slate-700">{shock.date}</span>
+                <span className="font-mono text-slate-700">
+                  {shock.value >= 0 ? '+' : ''}{shock.kind === 'percent' ? `${shock.value}%` : formatAmount(shock.value)}
+                </span>
+                <button onClick={() => update(editing.id, { shocks: editing.shocks.filter((_, i) => i !== index) })} className="text-slate-400 hover:text-rose-600">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-1.5">
+              <select value={shockDate} onChange={e => setNewShock({ ...newShock, date: e.target.value })} className={inputClass}>
+                {base.map(point => <option key={point.date} value={point.date}>{point.date}</option>)}
+              </select>
+              <select value={newShock.kind} onChange={e => setNewShock({ ...newShock, kind: e.target.value as ScenarioShock['kind'] })} className={inputClass}>
+                <option value="percent">%</option>
+                <option value="amount">ยอดเงิน</option>
+              </select>
+              <input type="number" value={newShock.value} onChange={e => setNewShock({ ...newShock, value: numberValue(e) })} className={`${inputClass} w-24`} />
+              <button
+                onClick={() => shockDate && newShock.value !== 0 && update(editing.id, { shocks: [...editing.shocks, { ...newShock, date: shockDate }] })}
+                className="p-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Per-class overrides */}
+          <div className="space-y-2">
+            <p>การเติบโตเฉพาะกลุ่ม (%)</p>
+            {Object.entries(editing.classOverrides).map(([cls, percent]) => (
+              <div key={cls} className="flex items-center justify-between gap-2 bg-white border border-slate-100 rounded-lg px-2 py-1">
+                <span className="text-slate-700 truncate">{cls}</span>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={percent}
+                  onChange={e => update(editing.id, { classOverrides: { ...editing.classOverrides, [cls]: numberValue(e) } })}
+                  className={`${inputClass} w-20`}
+                />
+                <button
+                  onClick={() => {
+                    const { [cls]: _removed, ...rest } = editing.classOverrides;
+                    update(editing.id, { classOverrides: rest });
+                  }}
+                  className="text-slate-400 hover:text-rose-600"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-1.5">
+              <select value={overrideClass} onChange={e => setOverrideClass(e.target.value)} className={`${inputClass} flex-1`}>
+                <option value="">— เลือกกลุ่ม —</option>
+                {availableClasses.filter(cls => editing.classOverrides[cls] === undefined).map(cls => <option key={cls} value={cls}>{cls}</option>)}
+              </select>
+              <button
+                onClick={() => {
+                  if (!overrideClass) return;
+                  update(editing.id, { classOverrides: { ...editing.classOverrides, [overrideClass]: editing.growthPercent } });
+                  setOverrideClass('');
+                }}
+                className="p-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {series.some(s => !s.classOverridesApplied) && segment === 'ALL' && (
+        <p className="flex items-start gap-2 text-xs text-amber-600">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          ค่าเฉพาะกลุ่มบนยอดรวมต้องใช้ผลพยากรณ์รายกลุ่ม กรุณากด Forecast All Segments ก่อน
+        </p>
+      )}
+
+      {/* Delta table against the base forecast */}
+      {series.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[11px] text-slate-400 uppercase tracking-wider text-right">
+                <th className="text-left font-bold py-2">Month</th>
+                <th className="font-bold py-2">Base</th>
+                {series.map(s => (
+                  <th key={s.scenario.id} colSpan={2} className="font-bold py-2">{s.scenario.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {base.map((point, row) => (
+                <tr key={point.date} className="border-t border-slate-100 text-right">
+                  <td className="text-left py-2 font-medium text-slate-700">{point.date}</td>
+                  <td className="py-2 font-mono text-slate-600">{formatAmount(point.amount)}</td>
+                  {series.map(s => {
+                    const value = s.forecast[row].amount;
+                    return (
+                      <React.Fragment key={s.scenario.id}>
+                        <td className="py-2 font-mono text-slate-800">{formatAmount(value)}</td>
+                        <td className={`py-2 pl-2 font-mono text-xs ${value >= point.amount ? 'text-emerald-600' : 'text-rose-600'}`}>{formatDelta(value, point.amount)}</td>
+                      </React.Fragment>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-slate-200 text-right font-bold text-slate-800">
+                <td className="text-left py-2.5">Total</td>
+                <td className="py-2.5 font-mono">{formatAmount(baseTotal)}</td>
+                {series.map(s => (
+                  <React.Fragment key={s.scenario.id}>
+                    <td className="py-2.5 font-mono">{formatAmount(s.total)}</td>
+                    <td className={`py-2.5 pl-2 font-mono text-xs ${s.total >= baseTotal ? 'text-emerald-600' : 'text-rose-600'}`}>{formatDelta(s.total, baseTotal)}</td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, Play, ArrowUpDown, AlertTriangle } from 'lucide-react';
+import { SegmentForecastSummary, BatchProgress } from '../types';
+
+interface SegmentComparisonTableProps {
+  results: SegmentForecastSummary[];
+  progress: BatchProgress | null;
+  isRunning: boolean;
+  horizon: number;
+  onRun: () => void;
+  onSelectSegment: (segment: string) => void;
+}
+
+type SortKey = 'segment' | 'forecastTotal' | 'trend' | 'growthVsLastYear';
+
+const formatAmount = (value: number) => new Intl.NumberFormat('th-TH', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export const SegmentComparisonTable: React.FC<SegmentComparisonTableProps> = ({
+  results,
+  progress,
+  isRunning,
+  horizon,
+  onRun,
+  onSelectSegment,
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('forecastTotal');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const sorted = useMemo(() => {
+    const rows = [...results];
+    rows.sort((a, b) => {
+      // Failed segments always sink to the bottom
+      if (a.status !== b.status) return a.status === 'error' ? 1 : -1;
+      const av = a[sortKey];
+      const bv = b[sortKey];
+      if (av === bv) return 0;
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      const cmp = typeof av === 'number' && typeof bv === 'number'
+        ? av - bv
+        : String(av).localeCompare(String(bv));
+      return sortDesc ? -cmp : cmp;
+    });
+    return rows;
+  }, [results, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'segment');
+    }
+  };
+
+  const grandTotal = results.reduce((acc, r) => acc + (r.forecastTotal ?? 0), 0);
+
+  const renderHeader = (key: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th className={`font-bold py-2 ${align === 'left' ? 'text-left' : 'text-right'}`}>
+      <button onClick={() => handleSort(key)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-indigo-600 ${sortKey === key ? 'text-indigo-600' : ''}`}>
+        {label}
+        <ArrowUpDown className="w-3 h-3" />
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h4 className="font-bold text-slate-800 flex items-center gap-2">
+            <Layers className="w-4 h-4 text-indigo-600" />
+            All Segments Comparison
+          </h4>
+          <p className="text-xs text-slate-500 mt-1">พยากรณ์ทุกกลุ่มพร้อมกัน (ระยะ {horizon} เดือน) คลิกที่แถวเพื่อดูรายละเอียด</p>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className="inline-flex items-center gap-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition-colors shadow-sm disabled:opacity-60 disabled:cursor-wait"
+        >
+          <Play className="w-4 h-4" />
+          {isRunning ? 'กำลังพยากรณ์...' : 'Forecast All Segments'}
+        </button>
+      </div>
+
+      {progress && progress.total > 0 && (isRunning || progress.failed > 0) && (
+        <div className="mb-4">
+          <div className="flex justify-between text-[11px] font-medium text-slate-500 mb-1">
+            <span>{progress.completed} / {progress.total} segments</span>
+            {progress.failed > 0 && <span className="text-rose-600">{progress.failed} failed</span>}
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-600 transition-all duration-300"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[11px] text-slate-400">
+                {renderHeader('segment', 'Segment', 'left')}
+                {renderHeader('forecastTotal', 'Forecast Total')}
+                {renderHeader('trend', 'Trend')}
+                {renderHeader('growthVsLastYear', 'vs Last Year')}
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {sorted.map(row => (
+                <tr
+                  key={row.segment}
+                  onClick={() => row.status === 'success' && onSelectSegment(row.segment)}
+                  className={`border-t border-slate-100 text-right ${row.status === 'success' ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+                >
+                  <td className="text-left py-2.5 font-medium text-slate-700">{row.segment}</td>
+                  {row.status === 'error' ? (
+                    <td colSpan={3} className="py-2.5 text-xs text-rose-600">
+                      <span className="inline-flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" /> {row.error}
+                      </span>
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-2.5 font-mono font-bold text-indigo-600">{formatAmount(row.forecastTotal ?? 0)}</td>
+                      <td className="py-2.5 text-slate-600">{row.trend}</td>
+                      <td className={`py-2.5 font-mono ${row.growthVsLastYear === null ? 'text-slate-300' : row.growthVsLastYear >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {row.growthVsLastYear === null
+                          ? '–'
+                          : `${row.growthVsLastYear >= 0 ? '+' : ''}${(row.growthVsLastYear * 100).toFixed(1)}%`}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-slate-200 text-right font-bold text-slate-800">
+                <td className="text-left py-2.5">Sum of Segments</td>
+                <td className="py-2.5 font-mono">{formatAmount(grandTotal)}</td>
+                <td colSpan={2}></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { ParsedDataSet, SegmentDimension, DimensionFilters } from '../types';
+import { DIMENSION_LABELS } from '../services/segmentService';
+
+interface SegmentationControlsProps {
+  dataset: ParsedDataSet;
+  disabled: boolean;
+  onChange: (segmentBy: SegmentDimension[], filters: DimensionFilters) => void;
+}
+
+export const SegmentationControls: React.FC<SegmentationControlsProps> = ({ dataset, disabled, onChange }) => {
+  const { dimensions, dimensionValues, segmentBy, filters } = dataset;
+
+  if (dimensions.length === 0) return null;
+
+  // Toggling keeps the click order, so "Account Class × Rate Category" differs from the reverse
+  const toggleDimension = (dim: SegmentDimension) => {
+    const next = segmentBy.includes(dim) ? segmentBy.filter(d => d !== dim) : [...segmentBy, dim];
+    onChange(next, filters);
+  };
+
+  const handleFilterChange = (dim: SegmentDimension) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next: DimensionFilters = { ...filters };
+    if (e.target.value === '') {
+      delete next[dim];
+    } else {
+      next[dim] = e.target.value;
+    }
+    onChange(segmentBy, next);
+  };
+
+  const activeFilters = (Object.keys(filters) as SegmentDimension[]).filter(dim => filters[dim] !== undefined);
+
+  return (
+    <div className="flex flex-col gap-3 pt-3 border-t border-slate-100 text-xs text-slate-500 font-medium">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1.5 mr-1">
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          แบ่งกลุ่มตาม
+        </span>
+        {dimensions.map(dim => {
+          const position = segmentBy.indexOf(dim);
+          const active = position !== -1;
+          return (
+            <button
+              key={dim}
+              onClick={() => toggleDimension(dim)}
+              disabled={disabled}
+              className={`px-2.5 py-1 rounded-full border transition-colors disabled:opacity-60 ${
+                active
+                  ? 'bg-indigo-600 border-indigo-600 text-white'
+                  : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-indigo-300'
+              }`}
+            >
+              {active && segmentBy.length > 1 && <span className="mr-1 opacity-70">{position + 1}.</span>}
+              {DIMENSION_LABELS[dim]}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span>Drill-down</span>
+        {dimensions.map(dim => (
+          <label key={dim} className="flex items-center gap-1.5">
+            {DIMENSION_LABELS[dim]}
+            <select
+              value={filters[dim] ?? ''}
+              onChange={handleFilterChange(dim)}
+              disabled={disabled}
+              className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-60 max-w-[140px]"
+            >
+              <option value="">ทั้งหมด</option>
+              {(dimensionValues[dim] || []).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {activeFilters.length > 0 && (
+          <button
+            onClick={() => onChange(segmentBy, {})}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 text-rose-600 hover:text-rose-700 disabled:opacity-60"
+          >
+            <X className="w-3 h-3" /> ล้างตัวกรอง
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { FactRow, SegmentDimension, DimensionFilters, AgingBucket, AgingBuckets, AgingSnapshot, AgingTrendPoint, AgingRollForward, AgingRollRate } from '../types';
+import { segmentKeyOf, matchesFilters } from './segmentService';
+import { forecastSeries } from './statisticalService';
+import { addMonths } from './dateUtils';
+
+// AR aging from duedatefirst: days past due bucketed as 0–30 / 31–60 / 61–90 / 90+.
+// Amounts not yet due count towards 0–30.
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  '0-30': '0–30 วัน',
+  '31-60': '31–60 วัน',
+  '61-90': '61–90 วัน',
+  '90+': '90+ วัน',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const emptyBuckets = (): AgingBuckets => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export const hasDueDates = (facts: FactRow[]): boolean => facts.some(fact => fact.dueDate !== undefined);
+
+export const daysPastDue = (dueDate: string, asOf: string): number => {
+  return Math.round((Date.parse(asOf) - Date.parse(dueDate)) / DAY_MS);
+};
+
+export const bucketFor = (days: number): AgingBucket => {
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+};
+
+// Last calendar day of a YYYY-MM bill period, as YYYY-MM-DD
+export const endOfMonth = (date: string): string => {
+  const [y, m] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return `${date}-${String(lastDay).padStart(2, '0')}`;
+};
+
+/**
+ * Aging of every open item billed on or before the as-of month,
+ * grouped by the active segmentation key.
+ */
+export const computeAgingSnapshot = (
+  facts: FactRow[],
+  asOf: string,
+  segmentBy: SegmentDimension[],
+  filters: DimensionFilters = {}
+): AgingSnapshot => {
+  const asOfMonth = asOf.substring(0, 7);
+  const total = emptyBuckets();
+  const bySegment: Record<string, AgingBuckets> = {};
+
+  facts.forEach(fact => {
+    if (!fact.dueDate || fact.date > asOfMonth || !matchesFilters(fact, filters)) return;
+    const bucket = bucketFor(daysPastDue(fact.dueDate, asOf));
+    const segment = segmentKeyOf(fact, segmentBy);
+
+    if (!bySegment[segment]) bySegment[segment] = emptyBuckets();
+    bySegment[segment][bucket] += fact.amount;
+    total[bucket] += fact.amount;
+  });
+
+  return { asOf, total, bySegment };
+};
+
+// Aging snapshot as of the last day of each bill period, so every point covers all items billed up to then
+export const computeAgingTrend = (facts: FactRow[], filters: DimensionFilters = {}): AgingTrendPoint[] => {
+  const periods = new Set<string>();
+  facts.forEach(fact => {
+    if (fact.dueDate && matchesFilters(fact, filters)) periods.add(fact.date);
+  });
+
+  return Array.from(periods)
+    .sort()
+    .map(date => ({ date, buckets: computeAgingSnapshot(facts, endOfMonth(date), [], filters).total }));
+};
+
+/**
+ * Roll-rate model: each bucket rolls into the next one period later at its
+ * historical rate; 90+ retains its own balance at the observed rate.
+ * New 0–30 balances are projected with the statistical engine.
+ */
+export const forecastAgingRollForward = (trend: AgingTrendPoint[], horizon: number, lookback: number = 6): AgingRollForward => {
+  const recent = trend.slice(-(lookback + 1));
+  const rollRate = (from: AgingBucket[], to: AgingBucket) => {
+    let numerator = 0;
+    let denominator = 0;
+    for (let t = 0; t < recent.length - 1; t++) {
+      numerator += recent[t + 1].buckets[to];
+      denominator += from.reduce((acc, b) => acc + recent[t].buckets[b], 0);
+    }
+    // Cap at 1: a bucket cannot grow from the one before it without new billing
+    return denominator > 0 ? Math.min(1, Math.max(0, numerator / denominator)) : 0;
+  };
+
+  const rollRates: AgingRollRate[] = [
+    { from: '0-30', to: '31-60', rate: rollRate(['0-30'], '31-60') },
+    { from: '31-60', to: '61-90', rate: rollRate(['31-60'], '61-90') },
+    { from: '61-90', to: '90+', rate: rollRate(['61-90', '90+'], '90+') },
+  ];
+
+  if (trend.length === 0) return { rollRates, forecast: [] };
+
+  const currentSeries = trend.map(point => point.buckets['0-30']);
+  const newBalances = forecastSeries(currentSeries, horizon).forecast;
+
+  const forecast: AgingTrendPoint[] = [];
+  let previous = trend[trend.length - 1];
+  for (let i = 0; i < horizon; i++) {
+    const buckets: AgingBuckets = {
+      '0-30': Math.max(0, newBalances[i]),
+      '31-60': previous.buckets['0-30'] * rollRates[0].rate,
+      '61-90': previous.buckets['31-60'] * rollRates[1].rate,
+      '90+': (previous.buckets['61-90'] + previous.buckets['90+']) * rollRates[2].rate,
+    };
+    previous = { date: addMonths(previous.date, 1), buckets };
+    forecast.push(previous);
+  }
+
+  return { rollRates, forecast };
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { computeAccuracy, runBacktest } from './backtestService';
+import { MonthlyData } from '../types';
+
+describe('computeAccuracy', () => {
+  it('scores a simple forecast', () => {
+    const metrics = computeAccuracy([100, 200], [110, 180]);
+    expect(metrics.mae).toBe(15);
+    expect(metrics.bias).toBe(-5);
+    expect(metrics.rmse).toBeCloseTo(Math.sqrt((100 + 400) / 2), 10);
+    expect(metrics.mape).toBeCloseTo(10, 10);
+    expect(metrics.count).toBe(2);
+  });
+
+  it('skips zero actuals in MAPE and leaves it null when every actual is zero', () => {
+    expect(computeAccuracy([0, 100], [10, 90]).mape).toBeCloseTo(10, 10);
+    const allZero = computeAccuracy([0, 0], [0, 50]);
+    expect(allZero.mape).toBeNull();
+    // sMAPE skips the month where both are zero
+    expect(allZero.smape).toBeCloseTo(200, 10);
+    expect(allZero.mae).toBe(25);
+  });
+
+  it('returns empty metrics when there is nothing to compare', () => {
+    expect(computeAccuracy([], [1])).toEqual({ mape: null, smape: null, mae: 0, rmse: 0, bias: 0, count: 0 });
+  });
+});
+
+describe('runBacktest', () => {
+  const history: MonthlyData[] = Array.from({ length: 24 }, (_, i) => ({
+    date: `${2022 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+    amount: 100 + i,
+  }));
+
+  it('steps the origin back one month per fold and scores a perfect forecaster at zero', async () => {
+    const oracle = async (train: MonthlyData[], horizon: number) => history.slice(train.length, train.length + horizon);
+    const result = await runBacktest(history, oracle, 'oracle', { horizon: 3, folds: 2, minTrain: 12 });
+    expect(result.folds.map(fold => fold.origin)).toEqual(['2023-08', '2023-09']);
+    expect(result.metrics.mae).toBe(0);
+    expect(result.metrics.count).toBe(6);
+  });
+
+  it('rejects a series too short for one fold', async () => {
+    await expect(runBacktest(history.slice(0, 8), async () => [], 'x', { horizon: 3, minTrain: 6 })).rejects.toThrow('Backtest');
+  });
+});
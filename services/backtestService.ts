@@ -0,0 +1,103 @@
+import { MonthlyData, ForecastMethod, AccuracyMetrics, BacktestFold, BacktestResult } from '../types';
+import { forecastSeries } from './statisticalService';
+import { addMonths } from './dateUtils';
+
+// Rolling-origin backtesting: repeatedly hide the most recent months,
+// re-forecast from the remaining history and score against what actually happened.
+
+export type SeriesForecaster = (history: MonthlyData[], horizon: number) => Promise<MonthlyData[]>;
+
+export interface BacktestOptions {
+  horizon?: number; // Months held out per fold
+  folds?: number; // Number of forecast origins
+  minTrain?: number; // Minimum months of training data per fold
+}
+
+export const computeAccuracy = (actual: number[], predicted: number[]): AccuracyMetrics => {
+  const count = Math.min(actual.length, predicted.length);
+  if (count === 0) {
+    return { mape: null, smape: null, mae: 0, rmse: 0, bias: 0, count: 0 };
+  }
+
+  let absSum = 0;
+  let sqSum = 0;
+  let errSum = 0;
+  let apeSum = 0;
+  let apeCount = 0;
+  let sapeSum = 0;
+  let sapeCount = 0;
+
+  for (let i = 0; i < count; i++) {
+    const err = predicted[i] - actual[i];
+    absSum += Math.abs(err);
+    sqSum += err * err;
+    errSum += err;
+
+    // Percentage errors are undefined when the denominator is zero, skip those points
+    if (actual[i] !== 0) {
+      apeSum += Math.abs(err) / Math.abs(actual[i]);
+      apeCount++;
+    }
+    const denom = Math.abs(actual[i]) + Math.abs(predicted[i]);
+    if (denom !== 0) {
+      sapeSum += (2 * Math.abs(err)) / denom;
+      sapeCount++;
+    }
+  }
+
+  return {
+    mape: apeCount > 0 ? (apeSum / apeCount) * 100 : null,
+    smape: sapeCount > 0 ? (sapeSum / sapeCount) * 100 : null,
+    mae: absSum / count,
+    rmse: Math.sqrt(sqSum / count),
+    bias: errSum / count,
+    count,
+  };
+};
+
+// Adapter so the statistical engine can be backtested like any other forecaster
+export const statisticalForecaster = (method: ForecastMethod, historyWindow?: number): SeriesForecaster => async (history, horizon) => {
+  const lastDate = history[history.length - 1].date;
+  const window = historyWindow ? history.slice(-historyWindow) : history;
+  const model = forecastSeries(window.map(item => item.amount), horizon, method);
+  return model.forecast.map((amount, i) => ({ date: addMonths(lastDate, i + 1), amount }));
+};
+
+export const runBacktest = async (
+  series: MonthlyData[],
+  forecaster: SeriesForecaster,
+  label: string,
+  options: BacktestOptions = {}
+): Promise<BacktestResult> => {
+  const horizon = options.horizon ?? 6;
+  const minTrain = options.minTrain ?? 6;
+
+  // Origins step back one month at a time; never go below the minimum training window
+  const maxFolds = series.length - horizon - minTrain + 1;
+  if (maxFolds < 1) {
+    throw new Error(`ข้อมูลไม่เพียงพอสำหรับ Backtest: ต้องการอย่างน้อย ${horizon + minTrain} เดือน (มี ${series.length} เดือน)`);
+  }
+  const folds = Math.min(options.folds ?? 6, maxFolds);
+
+  const results: BacktestFold[] = [];
+  const allActual: number[] = [];
+  const allPredicted: number[] = [];
+
+  for (let f = folds - 1; f >= 0; f--) {
+    const originIndex = series.length - horizon - f;
+    const train = series.slice(0, originIndex);
+    const actual = series.slice(originIndex, originIndex + horizon);
+    const predicted = (await forecaster(train, horizon)).slice(0, actual.length);
+
+    // Match by position: forecasters are asked for exactly 'horizon' consecutive months
+    actual.forEach((item, i) => {
+      if (predicted[i] === undefined) return;
+      allActual.push(item.amount);
+      allPredicted.push(predicted[i].amount);
+    });
+
+    results.push({ origin: train[train.length - 1].date, actual, predicted });
+  }
+
+  return { label, folds: results, metrics: computeAccuracy(allActual, allPredicted) };
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { forecastAllSegments } from './batchForecastService';
+import { ForecastResult } from '../types';
+
+const result: ForecastResult = { forecast: [{ date: '2024-02', amount: 1 }], reasoning: '', trend: 'stable' };
+const segments = { A: [{ date: '2024-01', amount: 1 }], B: [{ date: '2024-01', amount: 1 }], C: [{ date: '2024-01', amount: 1 }] };
+
+describe('forecastAllSegments', () => {
+  it('records a failing segment without stopping the rest', async () => {
+    const summaries = await forecastAllSegments(segments, async (_, name) => {
+      if (name === 'B') throw new Error('boom');
+      return result;
+    }, { concurrency: 1 });
+    expect(summaries.map(s => [s.segment, s.status])).toEqual([['A', 'success'], ['B', 'error'], ['C', 'success']]);
+  });
+
+  it('starts no further segments once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const started: string[] = [];
+    const summaries = await forecastAllSegments(segments, async (_, name) => {
+      started.push(name);
+      controller.abort();
+      return result;
+    }, { concurrency: 1, signal: controller.signal });
+    expect(started).toEqual(['A']);
+    expect(summaries.map(s => s.segment)).toEqual(['A']);
+  });
+});
@@ -0,0 +1,85 @@
+import { MonthlyData, ForecastResult, SegmentForecastSummary, BatchProgress } from '../types';
+import { addMonths } from './dateUtils';
+
+// Forecasts many segments in one run with a bounded number of in-flight requests.
+// A failing segment is recorded and never aborts the rest of the batch.
+
+export type SegmentForecaster = (history: MonthlyData[], segmentName: string) => Promise<ForecastResult>;
+
+export interface BatchOptions {
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal; // Once aborted no further segments are started
+}
+
+// Compare forecast months against the same calendar months one year earlier
+export const computeGrowthVsLastYear = (history: MonthlyData[], forecast: MonthlyData[]): number | null => {
+  const historyMap = new Map(history.map(item => [item.date, item.amount]));
+  let forecastSum = 0;
+  let lastYearSum = 0;
+  let matched = 0;
+
+  forecast.forEach(item => {
+    const lastYear = historyMap.get(addMonths(item.date, -12));
+    if (lastYear === undefined) return;
+    forecastSum += item.amount;
+    lastYearSum += lastYear;
+    matched++;
+  });
+
+  if (matched === 0 || lastYearSum === 0) return null;
+  return (forecastSum - lastYearSum) / Math.abs(lastYearSum);
+};
+
+const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+export const forecastAllSegments = async (
+  segments: Record<string, MonthlyData[]>,
+  forecaster: SegmentForecaster,
+  options: BatchOptions = {}
+): Promise<SegmentForecastSummary[]> => {
+  const names = Object.keys(segments).sort();
+  const summaries: Record<string, SegmentForecastSummary> = {};
+  const progress: BatchProgress = { completed: 0, total: names.length, failed: 0 };
+  options.onProgress?.({ ...progress });
+
+  await runWithConcurrency(names, options.concurrency ?? 3, async (name) => {
+    const history = segments[name];
+    try {
+      const result = await forecaster(history, name);
+      summaries[name] = {
+        segment: name,
+        status: 'success',
+        result,
+        forecastTotal: result.forecast.reduce((acc, item) => acc + item.amount, 0),
+        trend: result.trend,
+        growthVsLastYear: computeGrowthVsLastYear(history, result.forecast),
+      };
+    } catch (err: any) {
+      progress.failed++;
+      summaries[name] = {
+        segment: name,
+        status: 'error',
+        result: null,
+        forecastTotal: null,
+        trend: null,
+        growthVsLastYear: null,
+        error: err?.message || 'Unknown Error',
+      };
+    }
+    progress.completed++;
+    options.onProgress?.({ ...progress });
+  }, options.signal);
+
+  // An aborted batch returns only the segments that were started
+  return names.filter(name => summaries[name]).map(name => summaries[name]);
+};
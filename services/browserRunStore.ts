@@ -0,0 +1,70 @@
+import { RunStore, StoredDataset, ForecastRun, ForecastRunSummary, ForecastPoint, MonthRange } from '../types';
+import { createIdbStore } from './idb';
+import { forecastRunKey, uniqueRuns } from './runKey';
+
+// Stand-in for Supabase when no project is configured: the same RunStore kept in this browser's IndexedDB.
+
+const datasets = createIdbStore<StoredDataset>('ai-ar-forecaster-datasets', 'datasets', 'id');
+const runs = createIdbStore<ForecastRun>('ai-ar-forecaster-runs', 'runs', 'id');
+
+const newId = (): string => globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const overlaps = (forecast: ForecastPoint[], months: MonthRange): boolean =>
+  forecast.length > 0 && forecast[0].date <= months.to && forecast[forecast.length - 1].date >= months.from;
+
+export const toRunSummary = (run: ForecastRun): ForecastRunSummary => ({
+  id: run.id,
+  datasetId: run.datasetId,
+  createdAt: run.createdAt,
+  fileName: run.fileName,
+  segment: run.segment,
+  engine: run.engine,
+  model: run.model,
+  method: run.method,
+  horizon: run.result.forecast.length,
+  total: run.result.forecast.reduce((acc, item) => acc + item.amount, 0),
+});
+
+export const browserRunStore: RunStore = {
+  backend: 'browser',
+
+  saveDataset: async (dataset) => {
+    const id = newId();
+    await datasets.put({ ...dataset, id, createdAt: new Date().toISOString() });
+    return id;
+  },
+
+  loadDataset: async (id) => (await datasets.get(id)) ?? null,
+
+  saveRuns: async (newRuns) => {
+    const createdAt = new Date().toISOString();
+    const existing = await runs.getAll();
+    for (const run of uniqueRuns(newRuns)) {
+      // Same dataset and inputs: overwrite the earlier run
+      const key = forecastRunKey(run);
+      const previous = run.datasetId ? existing.find(r => r.datasetId === run.datasetId && forecastRunKey(r) === key) : undefined;
+      await runs.put({ ...run, id: previous?.id ?? newId(), createdAt });
+    }
+  },
+
+  listRuns: async (limit) => {
+    const all = await runs.getAll();
+    return all
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(toRunSummary);
+  },
+
+  loadRun: async (id) => (await runs.get(id)) ?? null,
+
+  listSegmentRuns: async (segment, months, limit) => {
+    const all = await runs.getAll();
+    return all
+      .filter(run => run.segment === segment && overlaps(run.result.forecast, months))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(({ history, ...run }) => run);
+  },
+
+  deleteRun: (id) => runs.delete(id),
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseBillPeriod, validateColumnMapping, createCSVAggregator } from './csvService';
+import { CSVPreview } from '../types';
+
+describe('parseBillPeriod', () => {
+  it('reads YYYYMM, YYYYMMDD and ISO dates', () => {
+    expect(parseBillPeriod('202401')).toBe('2024-01');
+    expect(parseBillPeriod('20241215')).toBe('2024-12');
+    expect(parseBillPeriod('2024-03-05')).toBe('2024-03');
+  });
+
+  it.each(['202413', '202400', '000001', '20241301'])('rejects %s', raw => {
+    expect(parseBillPeriod(raw)).toBe('');
+  });
+});
+
+describe('invalid months', () => {
+  it('are counted as invalid-date in the quality report', () => {
+    const aggregator = createCSVAggregator();
+    [['billPeriod', 'amount'], ['202411', '10'], ['202412', '20'], ['202413', '30']]
+      .forEach((fields, i) => aggregator.pushRecord(fields, i + 1));
+    const dataset = aggregator.finish();
+
+    expect(dataset.quality.rejectedCounts['invalid-date']).toBe(1);
+    expect(dataset.totalByDate.map(item => item.date)).toEqual(['2024-11', '2024-12']);
+  });
+
+  it('are flagged by the column mapping check', () => {
+    const preview: CSVPreview = {
+      headers: ['billPeriod', 'amount'],
+      rows: [['202412', '10'], ['202413', '20']],
+      signature: 'billperiod|amount',
+      delimiter: ',',
+      encoding: 'utf-8',
+    };
+    const { errors, warnings } = validateColumnMapping(preview, { billPeriod: 0, amount: 1 });
+    expect(errors).toEqual([]);
+    expect(warnings).toHaveLength(1);
+  });
+});
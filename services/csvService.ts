@@ -1,188 +1,406 @@
 
-import { MonthlyData, ParsedDataSet } from '../types';
-
-// Helper function to correctly parse CSV lines with quoted values containing commas
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
+import { ParsedDataSet, SegmentDimension, FactRow, ParseProgress, ColumnMapping, CSVPreview, MappableField } from '../types';
+import { regroupDataset } from './segmentService';
+import { createCSVTokenizer, detectDelimiter, detectEncoding } from './csvTokenizer';
+import { createDataQualityTracker, findMonthGaps } from './dataQualityService';
+
+// Accepted (cleaned) header names per segmentation dimension, in priority order
+const DIMENSION_HEADERS: Record<SegmentDimension, string[]> = {
+  accountclass: ['accountclass', 'actcode'],
+  paymenttype: ['paymenttype'],
+  docType: ['doctype'],
+  ratecat: ['ratecat'],
+  trsg: ['trsg'],
+  mru: ['mru'],
+  bacode: ['bacode'],
+};
+
+// Clean headers: lowercase, remove special chars
+const cleanHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const headerSignature = (headers: string[]): string => headers.map(cleanHeader).join('|');
+
+// Default mapping from the known header names; the mapping wizard starts from this
+export const detectColumnMapping = (rawHeaders: string[]): ColumnMapping => {
+  const headers = rawHeaders.map(cleanHeader);
+  const mapping: ColumnMapping = {};
+  const assign = (field: MappableField, candidates: string[]) => {
+    const index = candidates.map(h => headers.indexOf(h)).find(i => i !== -1);
+    if (index !== undefined) mapping[field] = index;
+  };
+
+  // Target Columns based on requirement
+  // Date: billPeriod (fallback: monthly)
+  assign('billPeriod', ['billperiod', 'monthly']);
+  // Amount: amount
+  assign('amount', ['amount']);
+  // Dimensions: accountclass, paymenttype, docType, ratecat, trsg, mru, bacode (all optional)
+  (Object.keys(DIMENSION_HEADERS) as SegmentDimension[]).forEach(dim => assign(dim, DIMENSION_HEADERS[dim]));
+  // Due date (optional): enables AR aging
+  assign('duedatefirst', ['duedatefirst', 'duedate']);
+
+  return mapping;
+};
+
+// A YYYY-MM key the calendar arithmetic can use: year 0001+ and month 01–12
+const validPeriod = (y: string, m: string): string => {
+  const month = Number(m);
+  return Number(y) >= 1 && month >= 1 && month <= 12 ? `${y}-${m}` : '';
+};
+
+// Parse billPeriod into YYYY-MM ('' if unrecognised or not a real month).
+// Expected format: YYYYMM (e.g., 202309, 202401)
+export const parseBillPeriod = (rawDate: string): string => {
+  const cleanDate = rawDate.replace(/[^0-9]/g, '');
+
+  if (cleanDate.length === 6 || cleanDate.length === 8) {
+    // YYYYMM or YYYYMMDD -> YYYY-MM
+    return validPeriod(cleanDate.substring(0, 4), cleanDate.substring(4, 6));
+  } else if (rawDate.includes('-') || rawDate.includes('/')) {
+    // Try standard date parsing
+    const d = new Date(rawDate);
+    if (!isNaN(d.getTime())) {
+      const y = d.getFullYear();
+      const m = String(d.getMonth() + 1).padStart(2, '0');
+      return y >= 1 && y <= 9999 ? `${String(y).padStart(4, '0')}-${m}` : '';
     }
   }
-  result.push(current);
-  
-  // Clean up quotes and whitespace
-  return result.map(val => {
-    val = val.trim();
-    if (val.startsWith('"') && val.endsWith('"')) {
-      val = val.slice(1, -1);
+  return '';
+};
+
+export const parseAmount = (rawAmount: string): number => parseFloat(rawAmount.replace(/,/g, ''));
+
+// Parse duedatefirst into YYYY-MM-DD.
+// Accepts YYYYMMDD, YYYY-MM-DD and DD/MM/YYYY; Buddhist Era years (25xx) are converted to CE.
+export const parseDueDate = (raw: string): string | null => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  let y: number, m: number, d: number;
+  const digits = value.replace(/[^0-9]/g, '');
+  const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+
+  if (dmy) {
+    d = Number(dmy[1]);
+    m = Number(dmy[2]);
+    y = Number(dmy[3]);
+  } else if (digits.length === 8 && /^\d{4}/.test(value)) {
+    y = Number(digits.substring(0, 4));
+    m = Number(digits.substring(4, 6));
+    d = Number(digits.substring(6, 8));
+  } else {
+    return null;
+  }
+
+  if (y > 2400) y -= 543;
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// Thrown for problems with the file content; the message is shown to the user as-is
+export class CSVFormatError extends Error {}
+
+const CHUNK_SIZE = 1024 * 1024; // 1 MB per read keeps memory flat on multi-hundred-MB exports
+
+export interface CSVAggregator {
+  pushRecord: (fields: string[], line: number) => void;
+  finish: () => ParsedDataSet;
+}
+
+/**
+ * Incremental aggregation: the first record is the header, every later record is folded
+ * straight into the fact table, so no row is kept in memory after it is processed.
+ * Columns come from the user's mapping, or are detected from the header names.
+ * Skipped rows are recorded with their line number in the data quality report.
+ */
+export const createCSVAggregator = (mapping?: ColumnMapping): CSVAggregator => {
+  let headerLine: string | null = null;
+  let dataLineCount = 0;
+
+  let dateIndex = -1;
+  let amountIndex = -1;
+  let dueDateIndex = -1;
+  const dimensionIndex: Partial<Record<SegmentDimension, number>> = {};
+  let dimensions: SegmentDimension[] = [];
+
+  // Data Aggregation Structures
+  const factMap = new Map<string, FactRow>(); // { "2023-01|RES|A1": { date, dims, amount } }
+  const dimensionValueSets: Partial<Record<SegmentDimension, Set<string>>> = {};
+  const quality = createDataQualityTracker();
+  let validRowCount = 0;
+
+  // 1. Identify Headers
+  const processHeader = (fields: string[]) => {
+    headerLine = fields.join(', ');
+    const columns = mapping ?? detectColumnMapping(fields);
+
+    dateIndex = columns.billPeriod ?? -1;
+    amountIndex = columns.amount ?? -1;
+    dueDateIndex = columns.duedatefirst ?? -1;
+
+    (Object.keys(DIMENSION_HEADERS) as SegmentDimension[]).forEach(dim => {
+      if (columns[dim] !== undefined) dimensionIndex[dim] = columns[dim];
+    });
+    dimensions = Object.keys(dimensionIndex) as SegmentDimension[];
+    dimensions.forEach(dim => { dimensionValueSets[dim] = new Set<string>(); });
+
+    // Validation
+    if (dateIndex === -1 || amountIndex === -1) {
+      throw new CSVFormatError(`รูปแบบไฟล์ CSV ไม่ถูกต้อง: ขาดคอลัมน์จำเป็น 'billPeriod' หรือ 'amount' (Headers Found: ${headerLine})`);
     }
-    return val.replace(/["\r]/g, '');
-  });
+  };
+
+  const processRow = (cols: string[], line: number) => {
+    // Guard: Check if row has enough columns
+    if (cols.length <= Math.max(dateIndex, amountIndex)) {
+      quality.reject(line, 'short-row', `มี ${cols.length} คอลัมน์`);
+      return;
+    }
+
+    const rawDate = cols[dateIndex];
+    const rawAmount = cols[amountIndex];
+
+    if (!rawDate) return quality.reject(line, 'missing-date', '');
+    if (!rawAmount) return quality.reject(line, 'missing-amount', '');
+
+    // 2. Parse Date (billPeriod)
+    const dateKey = parseBillPeriod(rawDate);
+    if (!dateKey) return quality.reject(line, 'invalid-date', rawDate);
+
+    // 3. Parse Amount
+    const amount = parseAmount(rawAmount);
+    if (isNaN(amount)) return quality.reject(line, 'invalid-amount', rawAmount);
+    // Duplicates and credit notes are flagged but still aggregated
+    quality.accept(line, cols, amount);
+
+    // 4. Clean Dimension Values (blank -> 'Unknown')
+    const dims: FactRow['dims'] = {};
+    dimensions.forEach(dim => {
+      const raw = cols[dimensionIndex[dim]!];
+      const value = raw && raw.trim() !== '' ? raw.trim() : 'Unknown';
+      dims[dim] = value;
+      dimensionValueSets[dim]!.add(value);
+    });
+
+    // 5. Due date for aging (kept at day precision)
+    const dueDate = dueDateIndex !== -1 && cols[dueDateIndex] ? parseDueDate(cols[dueDateIndex]) : null;
+
+    // 6. Aggregate per (month, dimension values, due date)
+    const factKey = [dateKey, ...dimensions.map(dim => dims[dim]), dueDate ?? ''].join('|');
+    const fact = factMap.get(factKey);
+    if (fact) {
+      fact.amount += amount;
+    } else {
+      factMap.set(factKey, dueDate ? { date: dateKey, amount, dims, dueDate } : { date: dateKey, amount, dims });
+    }
+
+    validRowCount++;
+  };
+
+  return {
+    pushRecord: (rawFields: string[], line: number) => {
+      const fields = rawFields.map(f => f.trim());
+      if (fields.every(f => f === '')) return; // Blank line
+      if (headerLine === null) {
+        processHeader(fields);
+      } else {
+        dataLineCount++;
+        processRow(fields, line);
+      }
+    },
+
+    finish: () => {
+      if (headerLine === null) {
+        throw new CSVFormatError("ไฟล์ CSV ว่างเปล่า");
+      }
+      if (dataLineCount === 0) {
+        throw new CSVFormatError("ไฟล์มีข้อมูลไม่เพียงพอ (ต้องมี Header และ Data)");
+      }
+      if (validRowCount === 0) {
+        throw new CSVFormatError("ไม่พบข้อมูลที่สามารถประมวลผลได้ ตรวจสอบ format ของ billPeriod (YYYYMM) และ amount");
+      }
+
+      const dimensionValues: ParsedDataSet['dimensionValues'] = {};
+      dimensions.forEach(dim => {
+        dimensionValues[dim] = Array.from(dimensionValueSets[dim]!).sort();
+      });
+
+      // Default segmentation stays on Account Class; other keys are chosen in the UI.
+      // Missing months are filled with the default gap policy; the policy can be changed later.
+      const dataset = regroupDataset(
+        { facts: Array.from(factMap.values()), dimensions, dimensionValues, quality: quality.build([]) },
+        ['accountclass']
+      );
+
+      // Month gaps are reported for the total and each default segment
+      dataset.quality.gaps = [
+        ...findMonthGaps(dataset.totalByDate, 'Total'),
+        ...dataset.availableClasses.flatMap(cls => findMonthGaps(dataset.byClass[cls], cls)),
+      ];
+      return dataset;
+    },
+  };
 };
 
-export const parseCSV = async (file: File): Promise<ParsedDataSet> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      try {
-        const text = event.target?.result as string;
-        if (!text || text.trim().length === 0) {
-             reject(new Error("ไฟล์ CSV ว่างเปล่า"));
-             return;
-        }
-
-        const lines = text.split(/\r?\n/);
-        
-        if (lines.length < 2) {
-             reject(new Error("ไฟล์มีข้อมูลไม่เพียงพอ (ต้องมี Header และ Data)"));
-             return;
-        }
-
-        // 1. Identify Headers
-        // Clean headers: lowercase, remove special chars
-        const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
-        
-        // Target Columns based on requirement
-        // Date: billPeriod
-        let dateIndex = headers.indexOf('billperiod');
-        // Fallback
-        if (dateIndex === -1) dateIndex = headers.indexOf('monthly');
-        
-        // Amount: amount
-        let amountIndex = headers.indexOf('amount');
-
-        // Class: accountclass
-        let classIndex = headers.indexOf('accountclass');
-        // Fallback
-        if (classIndex === -1) classIndex = headers.indexOf('actcode');
-        if (classIndex === -1) classIndex = headers.indexOf('account_class');
-
-        // Validation
-        if (dateIndex === -1 || amountIndex === -1) {
-          reject(new Error(`รูปแบบไฟล์ CSV ไม่ถูกต้อง: ขาดคอลัมน์จำเป็น 'billPeriod' หรือ 'amount' (Headers Found: ${lines[0]})`));
-          return;
-        }
-
-        // Data Aggregation Structures
-        const totalMap: Record<string, number> = {}; // { "2023-01": 50000 }
-        const classMap: Record<string, Record<string, number>> = {}; // { "Residential": { "2023-01": 10000 } }
-        const foundClasses = new Set<string>();
-        let validRowCount = 0;
-
-        for (let i = 1; i < lines.length; i++) {
-          const line = lines[i].trim();
-          if (!line) continue;
-          
-          const cols = parseCSVLine(line);
-          
-          // Guard: Check if row has enough columns
-          if (cols.length <= Math.max(dateIndex, amountIndex)) continue;
-
-          const rawDate = cols[dateIndex];
-          const rawAmount = cols[amountIndex];
-          // If class column missing, default to 'Unclassified'
-          const rawClass = classIndex !== -1 ? cols[classIndex] : 'Unclassified';
-
-          if (!rawDate || !rawAmount) continue;
-
-          // 2. Parse Date (billPeriod)
-          // Expected format: YYYYMM (e.g., 202309, 202401)
-          let dateKey = '';
-          const cleanDate = rawDate.replace(/[^0-9]/g, ''); 
-          
-          if (cleanDate.length === 6) {
-             // YYYYMM -> YYYY-MM
-             const y = cleanDate.substring(0, 4);
-             const m = cleanDate.substring(4, 6);
-             dateKey = `${y}-${m}`;
-          } else if (cleanDate.length === 8) {
-             // YYYYMMDD -> YYYY-MM (Take first 6)
-             const y = cleanDate.substring(0, 4);
-             const m = cleanDate.substring(4, 6);
-             dateKey = `${y}-${m}`;
-          } else if (rawDate.includes('-') || rawDate.includes('/')) {
-             // Try standard date parsing
-             const d = new Date(rawDate);
-             if (!isNaN(d.getTime())) {
-               const y = d.getFullYear();
-               const m = String(d.getMonth() + 1).padStart(2, '0');
-               dateKey = `${y}-${m}`;
-             }
-          }
-
-          if (!dateKey) continue; // Skip if date invalid
-
-          // 3. Parse Amount
-          const amount = parseFloat(rawAmount.replace(/,/g, ''));
-          
-          // 4. Clean Class Name
-          const className = rawClass && rawClass.trim() !== '' ? rawClass.trim() : 'Unknown';
-
-          if (!isNaN(amount)) {
-            // A. Aggregate Total
-            if (!totalMap[dateKey]) totalMap[dateKey] = 0;
-            totalMap[dateKey] += amount;
-
-            // B. Aggregate by Account Class
-            if (!classMap[className]) classMap[className] = {};
-            if (!classMap[className][dateKey]) classMap[className][dateKey] = 0;
-            classMap[className][dateKey] += amount;
-            
-            foundClasses.add(className);
-            validRowCount++;
-          }
-        }
-
-        if (validRowCount === 0) {
-             reject(new Error("ไม่พบข้อมูลที่สามารถประมวลผลได้ ตรวจสอบ format ของ billPeriod (YYYYMM) และ amount"));
-             return;
-        }
-
-        // Sort function for dates (Ascending)
-        const sortFn = (a: MonthlyData, b: MonthlyData) => a.date.localeCompare(b.date);
-
-        // Prepare Total Data Array
-        const totalData: MonthlyData[] = Object.entries(totalMap)
-          .map(([date, amount]) => ({ date, amount }))
-          .sort(sortFn);
-
-        // Prepare Class Data Arrays
-        const byClass: Record<string, MonthlyData[]> = {};
-        foundClasses.forEach(cls => {
-            const classData = Object.entries(classMap[cls])
-                .map(([date, amount]) => ({ date, amount }))
-                .sort(sortFn);
-            
-            // Optional: Fill missing months with 0 if needed (Gap filling)
-            // For now, we keep sparse data as is, or Gemini might interpret gaps as zero/missing.
-            
-            byClass[cls] = classData;
-        });
+/**
+ * Reads the file in fixed-size chunks and feeds RFC 4180 records to the aggregator.
+ * Encoding and delimiter are detected from the first chunk.
+ * Works on the main thread and inside the parser Web Worker.
+ */
+export const parseCSVStream = async (
+  file: Blob,
+  onProgress?: (progress: ParseProgress) => void,
+  mapping?: ColumnMapping
+): Promise<ParsedDataSet> => {
+  try {
+    const aggregator = createCSVAggregator(mapping);
+    let rows = 0;
+    let decoder: TextDecoder | null = null;
+    let tokenizer: ReturnType<typeof createCSVTokenizer> | null = null;
 
-        resolve({
-            totalByDate: totalData,
-            byClass: byClass,
-            availableClasses: Array.from(foundClasses).sort()
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+
+      // BOM is stripped by the decoder itself
+      if (!decoder) decoder = new TextDecoder(detectEncoding(bytes));
+      const text = decoder.decode(bytes, { stream: true });
+
+      if (!tokenizer) {
+        tokenizer = createCSVTokenizer(detectDelimiter(text.slice(0, 64 * 1024)), (fields, line) => {
+          rows++;
+          aggregator.pushRecord(fields, line);
         });
+      }
+      tokenizer.push(text);
+
+      onProgress?.({ bytesRead: Math.min(offset + CHUNK_SIZE, file.size), totalBytes: file.size, rows });
+    }
+
+    if (decoder && tokenizer) {
+      tokenizer.push(decoder.decode());
+      tokenizer.flush();
+    }
+    return aggregator.finish();
+
+  } catch (error) {
+    if (error instanceof CSVFormatError) throw error;
+    console.error("CSV Parse Error:", error);
+    throw new Error("เกิดข้อผิดพลาดในการประมวลผลไฟล์ CSV");
+  }
+};
+
+// Message posted to services/csvWorker.ts
+export interface CSVWorkerRequest {
+  file: File;
+  mapping?: ColumnMapping;
+}
+
+// Messages posted by services/csvWorker.ts
+export type CSVWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; dataset: ParsedDataSet }
+  | { type: 'error'; message: string };
+
+/**
+ * Parses off the main thread when Web Workers are available so large exports
+ * don't freeze the tab. Falls back to chunked parsing on the main thread.
+ */
+export const parseCSV = (
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  mapping?: ColumnMapping
+): Promise<ParsedDataSet> => {
+  if (typeof Worker === 'undefined') {
+    return parseCSVStream(file, onProgress, mapping);
+  }
 
-      } catch (error) {
-        console.error("CSV Parse Error:", error);
-        reject(new Error("เกิดข้อผิดพลาดในการประมวลผลไฟล์ CSV"));
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./csvWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<CSVWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.dataset);
+      } else {
+        reject(new Error(message.message));
       }
     };
 
-    reader.onerror = () => reject(new Error("Read Error"));
-    reader.readAsText(file);
+    // Worker failed to start (e.g. blocked by CSP): parse on the main thread instead
+    worker.onerror = (event) => {
+      console.error("CSV Worker Error:", event);
+      worker.terminate();
+      parseCSVStream(file, onProgress, mapping).then(resolve, reject);
+    };
+
+    const request: CSVWorkerRequest = { file, mapping };
+    worker.postMessage(request);
+  });
+};
+
+const PREVIEW_BYTES = 64 * 1024;
+
+// Reads only the start of the file so the mapping step is instant even for huge exports
+export const previewCSV = async (file: Blob, maxRows: number = 10): Promise<CSVPreview> => {
+  const bytes = new Uint8Array(await file.slice(0, PREVIEW_BYTES).arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes, { stream: true });
+  const delimiter = detectDelimiter(text);
+
+  const records: string[][] = [];
+  const tokenizer = createCSVTokenizer(delimiter, fields => {
+    const trimmed = fields.map(f => f.trim());
+    if (trimmed.every(f => f === '')) return;
+    if (records.length <= maxRows) records.push(trimmed);
   });
+  tokenizer.push(text);
+  // A cut-off last record is only complete when the whole file fit in the preview
+  if (file.size <= PREVIEW_BYTES) tokenizer.flush();
+
+  if (records.length === 0) {
+    throw new Error("ไฟล์ CSV ว่างเปล่า");
+  }
+
+  const [headers, ...rows] = records;
+  return { headers, rows, signature: headerSignature(headers), delimiter, encoding };
+};
+
+// Checks a mapping against the preview rows before the full file is aggregated
+export const validateColumnMapping = (preview: CSVPreview, mapping: ColumnMapping): { errors: string[]; warnings: string[] } => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (mapping.billPeriod === undefined) errors.push("กรุณาเลือกคอลัมน์วันที่ (billPeriod)");
+  if (mapping.amount === undefined) errors.push("กรุณาเลือกคอลัมน์ยอดเงิน (amount)");
+  if (mapping.billPeriod !== undefined && mapping.billPeriod === mapping.amount) {
+    errors.push("คอลัมน์วันที่และยอดเงินต้องเป็นคนละคอลัมน์");
+  }
+  if (errors.length > 0 || preview.rows.length === 0) return { errors, warnings };
+
+  const badDates = preview.rows.filter(row => !parseBillPeriod(row[mapping.billPeriod!] ?? '')).length;
+  const badAmounts = preview.rows.filter(row => isNaN(parseAmount(row[mapping.amount!] ?? ''))).length;
+  const badDueDates = mapping.duedatefirst === undefined
+    ? 0
+    : preview.rows.filter(row => row[mapping.duedatefirst!] && !parseDueDate(row[mapping.duedatefirst!])).length;
+
+  if (badDates === preview.rows.length) {
+    errors.push(`คอลัมน์ "${preview.headers[mapping.billPeriod!]}" ไม่ใช่รูปแบบวันที่ (YYYYMM) ในแถวตัวอย่างทั้งหมด`);
+  } else if (badDates > 0) {
+    warnings.push(`${badDates} แถวตัวอย่างมีวันที่ที่อ่านไม่ได้หรือเดือนไม่ถูกต้อง (ต้องเป็น 01–12) และจะถูกข้าม`);
+  }
+  if (badAmounts === preview.rows.length) {
+    errors.push(`คอลัมน์ "${preview.headers[mapping.amount!]}" ไม่ใช่ตัวเลขในแถวตัวอย่างทั้งหมด`);
+  } else if (badAmounts > 0) {
+    warnings.push(`${badAmounts} แถวตัวอย่างมียอดเงินที่ไม่ใช่ตัวเลขและจะถูกข้าม`);
+  }
+  if (badDueDates > 0) {
+    warnings.push(`${badDueDates} แถวตัวอย่างมี duedatefirst ที่อ่านไม่ได้ (จะไม่ถูกนำไปคำนวณอายุหนี้)`);
+  }
+
+  return { errors, warnings };
 };
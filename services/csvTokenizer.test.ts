@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { createCSVTokenizer, detectDelimiter, detectEncoding, CSVDelimiter } from './csvTokenizer';
+
+// Feeds the chunks in order and returns every record with its starting line
+const tokenize = (chunks: string[], delimiter: CSVDelimiter = ',') => {
+  const records: { fields: string[]; line: number }[] = [];
+  const tokenizer = createCSVTokenizer(delimiter, (fields, line) => records.push({ fields, line }));
+  chunks.forEach(chunk => tokenizer.push(chunk));
+  tokenizer.flush();
+  return records;
+};
+
+const fieldsOf = (chunks: string[], delimiter?: CSVDelimiter) => tokenize(chunks, delimiter).map(r => r.fields);
+
+describe('createCSVTokenizer', () => {
+  it('splits plain records on LF, CRLF and CR', () => {
+    expect(fieldsOf(['a,b\n1,2\r\n3,4\r5,6'])).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('unescapes doubled quotes inside quoted fields', () => {
+    expect(fieldsOf(['"say ""hi""",x\n'])).toEqual([['say "hi"', 'x']]);
+  });
+
+  it('keeps delimiters and line breaks inside quoted fields', () => {
+    const records = tokenize(['id,note\n1,"first line\r\nsecond, line"\n2,plain\n']);
+    expect(records.map(r => r.fields)).toEqual([['id', 'note'], ['1', 'first line\r\nsecond, line'], ['2', 'plain']]);
+    // Line numbers are physical lines, so the record after a multiline field starts on line 4
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it.each<[CSVDelimiter, string]>([[';', 'a;b\n1;2'], ['\t', 'a\tb\n1\t2'], ['|', 'a|b\n1|2']])(
+    'splits on %j',
+    (delimiter, text) => {
+      expect(fieldsOf([text], delimiter)).toEqual([['a', 'b'], ['1', '2']]);
+    }
+  );
+
+  it('treats CRLF split across chunks as one line break', () => {
+    const records = tokenize(['a,b\r', '\n1,2\r', '\n']);
+    expect(records.map(r => r.fields)).toEqual([['a', 'b'], ['1', '2']]);
+    expect(records.map(r => r.line)).toEqual([1, 2]);
+  });
+
+  it('handles an escaped quote split at a chunk boundary', () => {
+    expect(fieldsOf(['"a"', '"b",c\n'])).toEqual([['a"b', 'c']]);
+  });
+
+  it('handles a closing quote at the end of a chunk', () => {
+    expect(fieldsOf(['"a,b"', ',c\n'])).toEqual([['a,b', 'c']]);
+  });
+
+  it('handles a quoted field that spans chunks', () => {
+    expect(fieldsOf(['x,"long ', 'value\n', 'here"\n'])).toEqual([['x', 'long value\nhere']]);
+  });
+
+  it('emits a last record without a trailing line break on flush', () => {
+    expect(fieldsOf(['a,b\n1,2'])).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each<[CSVDelimiter, string]>([
+    [',', 'billPeriod,amount,accountclass\n202401,100,RES\n202402,200,COM\n'],
+    [';', 'billPeriod;amount;accountclass\n202401;100,50;RES\n202402;200,00;COM\n'],
+    ['\t', 'billPeriod\tamount\taccountclass\n202401\t100\tRES\n'],
+    ['|', 'billPeriod|amount|accountclass\n202401|100|RES\n'],
+  ])('detects %j', (expected, sample) => {
+    expect(detectDelimiter(sample)).toBe(expected);
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('a;b\n"1,5,6";"x,y"\n"2,1";"z"\n')).toBe(';');
+  });
+
+  it('falls back to comma for a single column', () => {
+    expect(detectDelimiter('amount\n100\n200\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('recognises byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('accepts UTF-8 Thai text without a BOM', () => {
+    expect(detectEncoding(new TextEncoder().encode('ประเภท,ยอด\n'))).toBe('utf-8');
+  });
+
+  it('accepts a multi-byte UTF-8 character cut off at the end of the sample', () => {
+    const bytes = new TextEncoder().encode('ก');
+    expect(detectEncoding(bytes.slice(0, 2))).toBe('utf-8');
+  });
+
+  it('falls back to Windows-874 for TIS-620 bytes', () => {
+    // "กขค," in TIS-620
+    const bytes = new Uint8Array([0xa1, 0xa2, 0xa4, 0x2c]);
+    expect(detectEncoding(bytes)).toBe('windows-874');
+    expect(new TextDecoder('windows-874').decode(bytes)).toBe('กขค,');
+  });
+});
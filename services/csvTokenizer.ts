@@ -0,0 +1,146 @@
+// RFC 4180 tokenizer plus delimiter / encoding detection for legacy billing exports.
+// Text may be pushed in arbitrary chunks: quoted fields can span chunk and line boundaries.
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-874';
+
+export const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+export interface CSVTokenizer {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+// onRecord receives the 1-based physical line number the record starts on
+export const createCSVTokenizer = (delimiter: CSVDelimiter, onRecord: (fields: string[], line: number) => void): CSVTokenizer => {
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let recordStartLine = 1;
+  let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field: either an escape ("") or the closing quote
+  let lastWasCR = false;
+  let prevChar = '';
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(fields, recordStartLine);
+    fields = [];
+  };
+
+  const push = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // Count physical lines (CR, LF or CRLF), including those inside quoted fields
+      if (char === '\r' || (char === '\n' && prevChar !== '\r')) line++;
+      prevChar = char;
+
+      // CRLF is one line break; the CR already ended the record
+      if (lastWasCR) {
+        lastWasCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"'; // Escaped quote
+          continue;
+        }
+        inQuotes = false; // That quote closed the field; handle this char normally below
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          field += char; // Delimiters and line breaks are literal inside quotes
+        }
+        continue;
+      }
+
+      if (char === '"' && field.trim() === '') {
+        field = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endRecord();
+        recordStartLine = line;
+      } else if (char === '\r') {
+        endRecord();
+        recordStartLine = line;
+        lastWasCR = true;
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  const flush = () => {
+    quotePending = false;
+    inQuotes = false;
+    if (field !== '' || fields.length > 0) endRecord();
+  };
+
+  return { push, flush };
+};
+
+/**
+ * Picks the delimiter that splits the sample's first lines into the most columns
+ * consistently. Counting ignores delimiters inside quoted fields.
+ */
+export const detectDelimiter = (sample: string): CSVDelimiter => {
+  const records: Record<CSVDelimiter, number[]> = { ',': [], ';': [], '\t': [], '|': [] };
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts: number[] = [];
+    const tokenizer = createCSVTokenizer(delimiter, fields => {
+      if (counts.length < 10 && !(fields.length === 1 && fields[0].trim() === '')) counts.push(fields.length);
+    });
+    tokenizer.push(sample);
+    tokenizer.flush();
+    records[delimiter] = counts;
+  });
+
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = records[delimiter];
+    if (counts.length === 0) return;
+    // The header decides the column count; reward rows that agree with it
+    const columns = counts[0];
+    const agreeing = counts.filter(c => c === columns).length;
+    const score = columns > 1 ? columns * agreeing : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+  return best;
+};
+
+/**
+ * BOM first; otherwise valid UTF-8 wins, and anything else is assumed to be
+ * TIS-620 / Windows-874 from the legacy Thai billing system.
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-874';
+  }
+};
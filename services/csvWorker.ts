@@ -0,0 +1,17 @@
+import { parseCSVStream, CSVWorkerMessage, CSVWorkerRequest } from './csvService';
+
+// Dedicated worker: parses and aggregates the uploaded CSV off the main thread.
+
+const ctx = self as unknown as Worker;
+
+const post = (message: CSVWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<CSVWorkerRequest>) => {
+  try {
+    const { file, mapping } = event.data;
+    const dataset = await parseCSVStream(file, progress => post({ type: 'progress', progress }), mapping);
+    post({ type: 'done', dataset });
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || "เกิดข้อผิดพลาดในการประมวลผลไฟล์ CSV" });
+  }
+};
@@ -0,0 +1,143 @@
+import { DataQualityReport, MonthGap, MonthlyData, RejectionReason, RowIssue, RowIssueKind } from '../types';
+import { addMonths, monthsBetween } from './dateUtils';
+
+// Row-level data quality tracking for the CSV aggregator, plus month-gap detection.
+
+export const ISSUE_KIND_LABELS: Record<RowIssueKind, string> = {
+  'short-row': 'คอลัมน์ไม่ครบ',
+  'missing-date': 'ไม่มีวันที่',
+  'invalid-date': 'วันที่ไม่ถูกต้อง',
+  'missing-amount': 'ไม่มียอดเงิน',
+  'invalid-amount': 'ยอดเงินไม่ใช่ตัวเลข',
+  'duplicate': 'แถวซ้ำ',
+  'negative-amount': 'ยอดติดลบ / ใบลดหนี้',
+};
+
+export const REJECTION_REASONS: RejectionReason[] = ['short-row', 'missing-date', 'invalid-date', 'missing-amount', 'invalid-amount'];
+
+// Keeps the report small enough to post back from the worker on very dirty files
+const MAX_ISSUES = 10000;
+
+// 53-bit string hash (cyrb53): remembering every row as a number rather than its text keeps memory flat
+const hashRow = (text: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+export interface DataQualityTracker {
+  reject: (line: number, reason: RejectionReason, detail: string) => void;
+  accept: (line: number, fields: string[], amount: number) => void;
+  build: (gaps: MonthGap[]) => DataQualityReport;
+}
+
+export const createDataQualityTracker = (): DataQualityTracker => {
+  const rejectedCounts = REJECTION_REASONS.reduce(
+    (acc, reason) => ({ ...acc, [reason]: 0 }),
+    {} as Record<RejectionReason, number>
+  );
+  const issues: RowIssue[] = [];
+  const firstLineByRow = new Map<number, number>();
+  let totalRows = 0;
+  let acceptedRows = 0;
+  let duplicateRows = 0;
+  let negativeRows = 0;
+  let negativeTotal = 0;
+  let issuesTruncated = false;
+
+  const addIssue = (issue: RowIssue) => {
+    if (issues.length < MAX_ISSUES) {
+      issues.push(issue);
+    } else {
+      issuesTruncated = true;
+    }
+  };
+
+  return {
+    reject: (line, reason, detail) => {
+      totalRows++;
+      rejectedCounts[reason]++;
+      addIssue({ line, kind: reason, detail });
+    },
+
+    accept: (line, fields, amount) => {
+      totalRows++;
+      acceptedRows++;
+
+      const hash = hashRow(fields.join('\u0000'));
+      const firstLine = firstLineByRow.get(hash);
+      if (firstLine === undefined) {
+        firstLineByRow.set(hash, line);
+      } else {
+        duplicateRows++;
+        addIssue({ line, kind: 'duplicate', detail: `ซ้ำกับบรรทัด ${firstLine}` });
+      }
+
+      if (amount < 0) {
+        negativeRows++;
+        negativeTotal += amount;
+        addIssue({ line, kind: 'negative-amount', detail: `ยอด ${amount}` });
+      }
+    },
+
+    build: (gaps) => ({
+      totalRows,
+      acceptedRows,
+      rejectedCounts,
+      duplicateRows,
+      negativeRows,
+      negativeTotal,
+      issues: issues.sort((a, b) => a.line - b.line),
+      issuesTruncated,
+      gaps,
+    }),
+  };
+};
+
+// Runs of months without source data between the first and last observed period
+export const findMonthGaps = (filledSeries: MonthlyData[], segment: string): MonthGap[] => {
+  const series = filledSeries.filter(item => !item.filled);
+  const gaps: MonthGap[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const missing = monthsBetween(series[i - 1].date, series[i].date) - 1;
+    if (missing > 0) {
+      gaps.push({
+        segment,
+        from: addMonths(series[i - 1].date, 1),
+        to: addMonths(series[i].date, -1),
+        months: missing,
+      });
+    }
+  }
+  return gaps;
+};
+
+export const rejectedRowCount = (report: DataQualityReport): number =>
+  REJECTION_REASONS.reduce((acc, reason) => acc + report.rejectedCounts[reason], 0);
+
+export const hasQualityIssues = (report: DataQualityReport): boolean =>
+  rejectedRowCount(report) > 0 || report.duplicateRows > 0 || report.negativeRows > 0 || report.gaps.length > 0;
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per issue, then one per month gap; UTF-8 BOM so Excel shows Thai text correctly
+export const qualityReportToCSV = (report: DataQualityReport): string => {
+  const rows: (string | number)[][] = [['line', 'type', 'description', 'detail']];
+  report.issues.forEach(issue => {
+    rows.push([issue.line, issue.kind, ISSUE_KIND_LABELS[issue.kind], issue.detail]);
+  });
+  report.gaps.forEach(gap => {
+    rows.push(['', 'month-gap', `ไม่มีข้อมูล ${gap.months} เดือน`, `${gap.segment}: ${gap.from} – ${gap.to}`]);
+  });
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n');
+};
@@ -0,0 +1,16 @@
+// Month arithmetic on the app-wide 'YYYY-MM' date keys.
+
+export const addMonths = (date: string, months: number): string => {
+  const [y, m] = date.split('-').map(Number);
+  const index = y * 12 + (m - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = String((index % 12) + 1).padStart(2, '0');
+  return `${year}-${month}`;
+};
+
+// Number of whole months from 'from' to 'to' (negative if 'to' is earlier)
+export const monthsBetween = (from: string, to: string): number => {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty * 12 + tm) - (fy * 12 + fm);
+};
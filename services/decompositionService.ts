@@ -0,0 +1,187 @@
+import { SeriesDecomposition, DecompositionMethod } from '../types';
+
+// Seasonal-trend decomposition of monthly series.
+// STL (Cleveland et al., 1990) with optional robustness iterations. As in R's stl(), the
+// cycle-subseries are smoothed locally constant and trend / low-pass locally linear.
+// Classical additive decomposition is offered alongside for comparison.
+
+const SEASON_LENGTH = 12;
+
+const nextOdd = (value: number) => {
+  const n = Math.ceil(value);
+  return n % 2 === 0 ? n + 1 : n;
+};
+
+const tricube = (u: number) => (u < 1 ? (1 - u ** 3) ** 3 : 0);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Loess of ys (observed at x = 0..n-1) evaluated at x, which may lie just outside
+ * the data. Uses the 'span' nearest points with tricube weights multiplied by the
+ * robustness weights; degree 0 fits a local constant, degree 1 a local line.
+ */
+const loessAt = (ys: number[], robustness: number[], span: number, x: number, degree: 0 | 1 = 1): number | null => {
+  const n = ys.length;
+  const q = Math.min(span, n);
+  const lo = Math.min(Math.max(0, Math.round(x - (q - 1) / 2)), n - q);
+  const hi = lo + q - 1;
+  // Widen the neighbourhood when the span exceeds the data, as in the reference implementation
+  const h = Math.max(x - lo, hi - x) + 1 + (span > n ? Math.floor((span - n) / 2) : 0);
+
+  let sw = 0, swx = 0, swy = 0, swxx = 0, swxy = 0;
+  for (let i = lo; i <= hi; i++) {
+    const w = tricube(Math.abs(i - x) / h) * robustness[i];
+    sw += w;
+    swx += w * i;
+    swy += w * ys[i];
+    swxx += w * i * i;
+    swxy += w * i * ys[i];
+  }
+  if (sw <= 0) return null;
+
+  const xMean = swx / sw;
+  const yMean = swy / sw;
+  const variance = swxx / sw - xMean * xMean;
+  const slope = degree === 1 && variance > 1e-9 ? (swxy / sw - xMean * yMean) / variance : 0;
+  return yMean + slope * (x - xMean);
+};
+
+const loessSmooth = (ys: number[], robustness: number[], span: number): number[] => {
+  return ys.map((v, i) => loessAt(ys, robustness, span, i) ?? v);
+};
+
+const movingAverage = (values: number[], window: number): number[] => {
+  const out: number[] = [];
+  let sum = values.slice(0, window).reduce((acc, v) => acc + v, 0);
+  out.push(sum / window);
+  for (let i = window; i < values.length; i++) {
+    sum += values[i] - values[i - window];
+    out.push(sum / window);
+  }
+  return out;
+};
+
+/**
+ * STL decomposition: y = trend + seasonal + remainder.
+ * Series shorter than two full seasons get a loess trend and no seasonal component.
+ * Robust mode downweights large remainders so one-off spikes don't bend trend or seasonality.
+ */
+export const stlDecompose = (y: number[], robust: boolean = true, period: number = SEASON_LENGTH): SeriesDecomposition => {
+  const n = y.length;
+  const seasonalSpan = 7;
+  const trendSpan = nextOdd((1.5 * period) / (1 - 1.5 / seasonalSpan));
+  const lowPassSpan = nextOdd(period);
+
+  let robustness: number[] = Array(n).fill(1);
+  let trend: number[] = Array(n).fill(0);
+  let seasonal: number[] = Array(n).fill(0);
+
+  if (n < 2 * period) {
+    trend = loessSmooth(y, robustness, trendSpan);
+    return { trend, seasonal, remainder: y.map((v, i) => v - trend[i]) };
+  }
+
+  const outerLoops = robust ? 3 : 1;
+  for (let outer = 0; outer < outerLoops; outer++) {
+    for (let inner = 0; inner < 2; inner++) {
+      // 1. Detrend
+      const detrended = y.map((v, i) => v - trend[i]);
+
+      // 2. Smooth each cycle-subseries (all Januaries, all Februaries, ...), extended one cycle each side
+      const cycle: number[] = Array(n + 2 * period).fill(0);
+      for (let p = 0; p < period; p++) {
+        const indices: number[] = [];
+        for (let i = p; i < n; i += period) indices.push(i);
+        const sub = indices.map(i => detrended[i]);
+        const subWeights = indices.map(i => robustness[i]);
+        for (let j = -1; j <= sub.length; j++) {
+          const fallback = sub[Math.min(Math.max(j, 0), sub.length - 1)];
+          cycle[p + (j + 1) * period] = loessAt(sub, subWeights, seasonalSpan, j, 0) ?? fallback;
+        }
+      }
+
+      // 3. Low-pass filter of the cycle-subseries removes any leftover trend
+      const lowPass = loessSmooth(
+        movingAverage(movingAverage(movingAverage(cycle, period), period), 3),
+        Array(n).fill(1),
+        lowPassSpan
+      );
+
+      // 4. Seasonal = smoothed cycle minus its low-pass; 5. Trend from the deseasonalized series
+      seasonal = lowPass.map((l, i) => cycle[i + period] - l);
+      trend = loessSmooth(y.map((v, i) => v - seasonal[i]), robustness, trendSpan);
+    }
+
+    if (robust) {
+      // Bisquare weights on the remainder, scaled by six times its median absolute value
+      const absRemainder = y.map((v, i) => Math.abs(v - trend[i] - seasonal[i]));
+      const h = 6 * median(absRemainder);
+      robustness = absRemainder.map(r => (h > 0 && r < h ? (1 - (r / h) ** 2) ** 2 : h > 0 ? 0 : 1));
+    }
+  }
+
+  return { trend, seasonal, remainder: y.map((v, i) => v - trend[i] - seasonal[i]) };
+};
+
+/**
+ * Classical additive decomposition: centred 2×12 moving-average trend, seasonal
+ * indices averaged per calendar position and centred on zero. The moving average
+ * is undefined for the first and last half-season; those months take the nearest trend value.
+ */
+export const classicalDecompose = (y: number[], period: number = SEASON_LENGTH): SeriesDecomposition => {
+  const n = y.length;
+  if (n < 2 * period) return stlDecompose(y, false, period);
+
+  const half = Math.floor(period / 2);
+  const centred = movingAverage(movingAverage(y, period), 2); // Index k is centred on month k + half
+  const trend = y.map((_, t) => centred[Math.min(Math.max(t - half, 0), centred.length - 1)]);
+
+  const sums: number[] = Array(period).fill(0);
+  const counts: number[] = Array(period).fill(0);
+  for (let t = half; t < n - half; t++) {
+    sums[t % period] += y[t] - trend[t];
+    counts[t % period]++;
+  }
+  const indices = sums.map((sum, p) => (counts[p] > 0 ? sum / counts[p] : 0));
+  const offset = indices.reduce((acc, v) => acc + v, 0) / period;
+
+  const seasonal = y.map((_, t) => indices[t % period] - offset);
+  return { trend, seasonal, remainder: y.map((v, t) => v - trend[t] - seasonal[t]) };
+};
+
+export const DECOMPOSITION_METHOD_LABELS: Record<DecompositionMethod, string> = {
+  stl: 'STL',
+  classical: 'Classical',
+};
+
+export const decompose = (y: number[], method: DecompositionMethod): SeriesDecomposition => {
+  return method === 'stl' ? stlDecompose(y, true) : classicalDecompose(y);
+};
+
+// Fewer than two full seasons cannot separate seasonality from trend
+export const canEstimateSeasonality = (length: number): boolean => length >= 2 * SEASON_LENGTH;
+
+const variance = (values: number[]): number => {
+  const m = values.reduce((acc, v) => acc + v, 0) / values.length;
+  return values.reduce((acc, v) => acc + (v - m) ** 2, 0) / values.length;
+};
+
+/**
+ * Seasonal strength (Wang, Smith & Hyndman): 1 − Var(remainder) / Var(seasonal + remainder),
+ * from 0 (no seasonality) to 1 (seasonality explains all non-trend variation).
+ */
+export const seasonalStrength = ({ seasonal, remainder }: SeriesDecomposition): number => {
+  const total = variance(seasonal.map((s, i) => s + remainder[i]));
+  return total > 0 ? Math.max(0, 1 - variance(remainder) / total) : 0;
+};
+
+export const describeSeasonalStrength = (strength: number): string => {
+  if (strength >= 0.6) return 'Strong Seasonality';
+  if (strength >= 0.3) return 'Moderate Seasonality';
+  return 'No Clear Seasonality';
+};
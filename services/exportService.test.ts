@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { forecastToCSV } from './exportService';
+
+const lines = (csv: string) => csv.replace(/^\uFEFF/, '').split('\r\n');
+
+describe('forecastToCSV', () => {
+  it('exports uploaded actuals with the outlier replacement in its own column', () => {
+    const csv = forecastToCSV([{
+      segment: 'ALL',
+      label: 'Total Portfolio',
+      history: [{ date: '2024-01', amount: 100 }, { date: '2024-02', amount: 900 }],
+      adjusted: [{ date: '2024-01', amount: 100 }, { date: '2024-02', amount: 120, adjusted: true }],
+      forecast: [{ date: '2024-03', amount: 110, lower80: 100, upper80: 120, lower95: 95, upper95: 125 }],
+    }]);
+
+    expect(lines(csv)).toEqual([
+      'segment,date,type,amount,lower80,upper80,lower95,upper95,adjusted,note',
+      'Total Portfolio,2024-01,Actual,100,,,,,,',
+      'Total Portfolio,2024-02,Actual,900,,,,,120,Outlier adjusted',
+      'Total Portfolio,2024-03,Forecast,110,100,120,95,125,,',
+    ]);
+  });
+
+  it('leaves the adjusted column empty without an adjusted series', () => {
+    const csv = forecastToCSV([{
+      segment: 'RES',
+      label: 'RES',
+      history: [{ date: '2024-01', amount: 0, filled: true }],
+      forecast: [],
+    }]);
+
+    expect(lines(csv)[1]).toBe('RES,2024-01,Actual,0,,,,,,Gap-filled');
+  });
+});
@@ -0,0 +1,156 @@
+import { MonthlyData, ForecastPoint, SegmentExport } from '../types';
+
+// History + forecast export for the CFO pack: one long CSV, or an XLSX workbook with a
+// summary sheet and one sheet per segment. ExcelJS is loaded only when an XLSX is requested.
+
+interface ExportRow {
+  date: string;
+  type: 'Actual' | 'Forecast';
+  amount: number | null;
+  adjusted?: number; // Value the forecaster used in place of an outlier actual
+  lower80?: number;
+  upper80?: number;
+  lower95?: number;
+  upper95?: number;
+  note: string;
+}
+
+const noteFor = (item: MonthlyData): string => {
+  if (item.missing) return 'No source data';
+  if (item.filled) return 'Gap-filled';
+  if (item.adjusted) return 'Outlier adjusted';
+  return '';
+};
+
+const toRows = ({ history, adjusted = [], forecast }: SegmentExport): ExportRow[] => {
+  const replaced = new Map(adjusted.filter(item => item.adjusted).map(item => [item.date, item.amount]));
+  return [
+    ...history.map((item): ExportRow => ({
+      date: item.date,
+      type: 'Actual',
+      amount: item.missing ? null : item.amount,
+      adjusted: replaced.get(item.date),
+      note: noteFor({ ...item, adjusted: replaced.has(item.date) }),
+    })),
+    ...forecast.map((item: ForecastPoint): ExportRow => ({
+      date: item.date,
+      type: 'Forecast',
+      amount: item.amount,
+      lower80: item.lower80,
+      upper80: item.upper80,
+      lower95: item.lower95,
+      upper95: item.upper95,
+      note: '',
+    })),
+  ];
+};
+
+const csvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const HEADERS = ['segment', 'date', 'type', 'amount', 'lower80', 'upper80', 'lower95', 'upper95', 'adjusted', 'note'];
+
+// Long format, one row per segment and month; UTF-8 BOM so Excel shows Thai segment names correctly
+export const forecastToCSV = (segments: SegmentExport[]): string => {
+  const lines = [HEADERS.join(',')];
+  segments.forEach(segment => {
+    toRows(segment).forEach(row => {
+      lines.push([segment.label, row.date, row.type, row.amount, row.lower80, row.upper80, row.lower95, row.upper95, row.adjusted, row.note].map(csvField).join(','));
+    });
+  });
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+// Excel sheet names: at most 31 characters, none of : \ / ? * [ ], unique within the workbook
+const sheetName = (label: string, used: Set<string>): string => {
+  const base = label.replace(/[:\\/?*[\]]/g, '-').slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+const AMOUNT_FORMAT = '#,##0';
+
+export interface WorkbookMeta {
+  fileName: string;
+  engineLabel: string;
+  horizon: number;
+}
+
+export const forecastToXLSX = async (segments: SegmentExport[], meta: WorkbookMeta): Promise<Blob> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  workbook.created = new Date();
+
+  // Summary: forecast total per segment
+  const summary = workbook.addWorksheet('Summary');
+  summary.addRows([
+    ['AR Forecast', meta.fileName],
+    ['Engine', meta.engineLabel],
+    ['Horizon (months)', meta.horizon],
+    ['Exported', new Date().toLocaleString('th-TH')],
+    [],
+    ['Segment', 'Last actual month', 'Last actual', 'Forecast months', 'Forecast total'],
+  ]);
+  summary.getRow(6).font = { bold: true };
+  segments.forEach(segment => {
+    const last = segment.history[segment.history.length - 1];
+    summary.addRow([
+      segment.label,
+      last?.date ?? '',
+      last ? last.amount : null,
+      segment.forecast.length,
+      segment.forecast.length > 0 ? segment.forecast.reduce((acc, item) => acc + item.amount, 0) : null,
+    ]);
+  });
+  summary.getColumn(1).width = 32;
+  summary.getColumn(2).width = 18;
+  [3, 5].forEach(col => { summary.getColumn(col).numFmt = AMOUNT_FORMAT; summary.getColumn(col).width = 18; });
+  summary.getColumn(4).width = 16;
+
+  // One sheet per segment
+  const used = new Set<string>(['summary']);
+  segments.forEach(segment => {
+    const sheet = workbook.addWorksheet(sheetName(segment.label, used));
+    sheet.columns = [
+      { header: 'Date', key: 'date', width: 12 },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Amount', key: 'amount', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Lower 80%', key: 'lower80', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Upper 80%', key: 'upper80', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Lower 95%', key: 'lower95', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Upper 95%', key: 'upper95', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Adjusted', key: 'adjusted', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Note', key: 'note', width: 18 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    toRows(segment).forEach(row => {
+      const added = sheet.addRow(row);
+      if (row.type === 'Forecast') added.font = { color: { argb: 'FF4F46E5' } };
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "billing-2024.csv" -> "billing-2024-forecast"
+export const exportBaseName = (fileName: string, suffix: string): string =>
+  `${fileName.replace(/\.[^.]+$/, '')}-${suffix}`;
@@ -0,0 +1,75 @@
+import { MonthlyData, ForecastResult, ForecastOptions } from '../types';
+import { createIdbStore, isIndexedDbAvailable } from './idb';
+
+// Caches AI forecasts in IndexedDB so revisiting a segment is instant and returns the same numbers.
+// Entries are keyed by a SHA-256 fingerprint of everything the forecast depends on; any change to
+// the series, segment, horizon or provider/model produces a new key, so entries never go stale.
+
+interface CacheEntry {
+  key: string;
+  result: ForecastResult;
+  createdAt: string; // ISO timestamp
+}
+
+export interface CacheKeyInput {
+  history: MonthlyData[]; // Series exactly as sent to the provider (after outlier adjustment)
+  segmentName: string;
+  options: ForecastOptions;
+  provider: string;
+  model: string;
+}
+
+const store = createIdbStore<CacheEntry>('ai-ar-forecaster', 'forecasts', 'key');
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Fingerprint of a forecast request. Returns null where hashing or IndexedDB is unavailable
+ * (e.g. non-secure origins), which simply disables caching.
+ */
+export const forecastCacheKey = async ({ history, segmentName, options, provider, model }: CacheKeyInput): Promise<string | null> => {
+  if (!isIndexedDbAvailable() || !globalThis.crypto?.subtle) return null;
+  const payload = JSON.stringify({
+    series: history.map(item => [item.date, item.amount, item.missing ? 1 : 0]),
+    segmentName,
+    horizon: options.horizon,
+    historyWindow: options.historyWindow,
+    provider,
+    model,
+  });
+  try {
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload)));
+  } catch (error) {
+    console.error("Forecast Cache Key Error:", error);
+    return null;
+  }
+};
+
+// Cached result with 'cachedAt' set, or null on a miss
+export const getCachedForecast = async (key: string): Promise<ForecastResult | null> => {
+  try {
+    const entry = await store.get(key);
+    return entry ? { ...entry.result, cachedAt: entry.createdAt } : null;
+  } catch (error) {
+    console.error("Forecast Cache Read Error:", error);
+    return null;
+  }
+};
+
+export const putCachedForecast = async (key: string, result: ForecastResult): Promise<void> => {
+  const { cachedAt, ...fresh } = result;
+  try {
+    await store.put({ key, result: fresh, createdAt: new Date().toISOString() });
+  } catch (error) {
+    // Quota exceeded or storage disabled: the forecast is still shown, just not remembered
+    console.error("Forecast Cache Write Error:", error);
+  }
+};
+
+export const clearForecastCache = async (): Promise<void> => {
+  try {
+    await store.clear();
+  } catch (error) {
+    console.error("Forecast Cache Clear Error:", error);
+  }
+};
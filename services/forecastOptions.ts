@@ -0,0 +1,19 @@
+import { ForecastOptions } from '../types';
+
+export const MIN_HORIZON = 1;
+export const MAX_HORIZON = 24;
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  horizon: 6,
+  historyWindow: 36, // 3 years to better detect seasonality (Year-over-Year patterns)
+  minHistory: 6,
+};
+
+// Clamp user-supplied options into ranges the forecasting layer can handle
+export const normalizeForecastOptions = (options: Partial<ForecastOptions> = {}): ForecastOptions => {
+  const merged = { ...DEFAULT_FORECAST_OPTIONS, ...options };
+  const horizon = Math.min(MAX_HORIZON, Math.max(MIN_HORIZON, Math.round(merged.horizon)));
+  const minHistory = Math.max(2, Math.round(merged.minHistory));
+  const historyWindow = Math.max(minHistory, Math.round(merged.historyWindow));
+  return { horizon, historyWindow, minHistory };
+};
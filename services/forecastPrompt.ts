@@ -0,0 +1,79 @@
+import { MonthlyData, ForecastOptions } from '../types';
+import { normalizeForecastOptions } from './forecastOptions';
+
+// Prompt shared by every LLM forecast provider, so Gemini and local models see the same task.
+
+export const FORECAST_SYSTEM_INSTRUCTION = "You are a precise financial forecasting engine. Focus on data patterns. Do not hallucinate numbers. Use weighted moving averages or regression logic implicitly for predictions.";
+
+// For providers without structured-output schemas: spell the JSON shape out in the prompt
+export const FORECAST_JSON_FORMAT = `Return strictly one JSON object, with no surrounding text, of the form:
+    {"forecast": [{"date": "YYYY-MM", "amount": number, "lower80": number, "upper80": number, "lower95": number, "upper95": number}, ...], "reasoning": string, "trend": string}
+    where "trend" is a short summary such as "Seasonal Uptrend" or "Declining Volatility".`;
+
+export interface ForecastPrompt {
+  prompt: string;
+  horizon: number;
+  lastDate: string; // Last history month; the forecast starts the month after
+}
+
+/**
+ * Validates the history against the options and builds the analyst prompt.
+ * Throws the user-facing error when there is too little history.
+ */
+export const buildForecastPrompt = (
+  history: MonthlyData[],
+  segmentName: string,
+  options: Partial<ForecastOptions> = {},
+  outputFormat: string = "Return strictly JSON using the defined schema."
+): ForecastPrompt => {
+  const { horizon, historyWindow, minHistory } = normalizeForecastOptions(options);
+
+  // Validate Data Integrity
+  if (!history || history.length === 0) {
+    throw new Error("ไม่พบข้อมูลสำหรับการพยากรณ์");
+  }
+
+  // Require a minimum history for a somewhat reliable forecast
+  if (history.length < minHistory) {
+    throw new Error(`ข้อมูลไม่เพียงพอ: มีข้อมูลเพียง ${history.length} เดือน (ต้องการอย่างน้อย ${minHistory} เดือนเพื่อการพยากรณ์ที่แม่นยำ)`);
+  }
+
+  // Training window (default 36 months to detect Year-over-Year seasonality)
+  const recentHistory = history.slice(-historyWindow);
+  const lastDate = recentHistory.length > 0 ? recentHistory[recentHistory.length - 1].date : 'Unknown';
+
+  // Months marked as missing are sent as null rather than their placeholder value
+  const promptHistory = recentHistory.map(item => ({ date: item.date, amount: item.missing ? null : item.amount }));
+  const hasMissingMonths = recentHistory.some(item => item.missing);
+  const adjustedMonths = recentHistory.filter(item => item.adjusted).map(item => item.date);
+
+  // Enhanced Prompt for Pattern Recognition
+  const prompt = `
+    You are an expert Senior Financial Data Analyst specializing in Accounts Receivable (AR) forecasting.
+    
+    **Input Data:**
+    - Segment: "${segmentName}"
+    - Historical Data (Monthly): ${JSON.stringify(promptHistory)}${hasMissingMonths ? `
+    - Months with a null amount have no source data. Treat them as unknown, not as zero.` : ''}${adjustedMonths.length > 0 ? `
+    - Outliers in ${adjustedMonths.join(', ')} have already been replaced with typical values.` : ''}
+    
+    **Your Task:**
+    1. **Analyze Patterns**: Identify specific patterns in the historical data. Look for:
+       - **Seasonality**: Are there recurring peaks or drops in specific months? (e.g., Is December always high? Is April low?)
+       - **Trend**: Is the overall direction increasing, decreasing, or stable over the last 12 months?
+       - **Volatility**: Are there random spikes that should be treated as outliers?
+    
+    2. **Generate Forecast**: Predict the 'amount' for the NEXT ${horizon} months starting after ${lastDate}.
+       - The forecast MUST respect the identified seasonality. (e.g., If history shows Q4 is strong, the forecast for Q4 months should reflect that).
+       - Apply the identified trend to the projection.
+       - For each month also give 80% and 95% prediction intervals (lower80/upper80, lower95/upper95) reflecting the historical volatility. Intervals should widen further into the future and always satisfy lower95 <= lower80 <= amount <= upper80 <= upper95.
+    
+    3. **Explain Reasoning**: Provide a concise explanation citing specific months or trends observed (e.g., "Forecast anticipates a seasonal dip in January based on previous years...").
+
+    **Output Format:**
+    ${outputFormat}
+  `;
+
+
+  return { prompt, horizon, lastDate };
+};
@@ -0,0 +1,68 @@
+import { ForecastEngine, ForecastProvider, ForecastResult, ForecastOptions, ForecastMethod, MonthlyData, ForecastRequestControl } from '../types';
+import { getForecast, hasGeminiApiKey, getGeminiModel } from './geminiService';
+import { getOpenAICompatibleForecast, hasOpenAICompatibleEndpoint, getOpenAICompatibleModel } from './openAICompatibleService';
+import { getStatisticalForecast } from './statisticalService';
+import { ForecastValidationError } from './forecastValidation';
+
+// Registry of forecast backends. The UI lists these in order; adding a backend means adding an entry here.
+
+export const FORECAST_PROVIDERS: Record<ForecastEngine, ForecastProvider> = {
+  'gemini': {
+    id: 'gemini',
+    label: 'Gemini AI',
+    model: getGeminiModel(),
+    kind: 'llm',
+    concurrency: 2, // Keep below the free-tier rate limit
+    isAvailable: hasGeminiApiKey,
+    unavailableReason: 'ไม่พบ API Key',
+    forecast: (history, segmentName, options, _method, control) => getForecast(history, segmentName, options, control),
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'Local LLM',
+    model: getOpenAICompatibleModel(),
+    kind: 'llm',
+    concurrency: 1, // Local servers usually process one request at a time
+    isAvailable: hasOpenAICompatibleEndpoint,
+    unavailableReason: 'ไม่พบ LLM_BASE_URL',
+    forecast: (history, segmentName, options, _method, control) => getOpenAICompatibleForecast(history, segmentName, options, control),
+  },
+  'statistical': {
+    id: 'statistical',
+    label: 'Statistical',
+    model: 'Offline',
+    kind: 'statistical',
+    concurrency: 4,
+    isAvailable: () => true,
+    unavailableReason: '',
+    forecast: (history, segmentName, options, method) => getStatisticalForecast(history, segmentName, method, options),
+  },
+};
+
+export const getForecastProvider = (engine: ForecastEngine): ForecastProvider => FORECAST_PROVIDERS[engine];
+
+export const LLM_PROVIDERS: ForecastProvider[] = Object.values(FORECAST_PROVIDERS).filter(p => p.kind === 'llm');
+
+// First configured AI provider, otherwise the offline engine
+export const getDefaultEngine = (): ForecastEngine => LLM_PROVIDERS.find(p => p.isAvailable())?.id ?? 'statistical';
+
+/**
+ * Runs the provider; when an AI provider keeps returning a malformed forecast, answers with the
+ * statistical engine instead and records why on the result so the UI can warn about it.
+ */
+export const forecastWithFallback = async (
+  engine: ForecastEngine,
+  history: MonthlyData[],
+  segmentName: string,
+  options: ForecastOptions,
+  method: ForecastMethod,
+  control: ForecastRequestControl = {}
+): Promise<ForecastResult> => {
+  try {
+    return await getForecastProvider(engine).forecast(history, segmentName, options, method, control);
+  } catch (error) {
+    if (!(error instanceof ForecastValidationError)) throw error;
+    const result = await getStatisticalForecast(history, segmentName, method, options);
+    return { ...result, fallback: { from: engine, reason: error.message } };
+  }
+};
@@ -0,0 +1,80 @@
+import { MonthlyData, SegmentForecastRun, RunAccuracy, RealizedPoint, SegmentDimension, DimensionFilters } from '../types';
+import { computeAccuracy } from './backtestService';
+import { addMonths } from './dateUtils';
+
+// Scores saved forecasts against the actuals of a later upload: per-month realized error,
+// cumulative drift and one accuracy figure per forecast origin for the history chart.
+
+const sameKey = (a: SegmentDimension[], b: SegmentDimension[]) => [...a].sort().join('|') === [...b].sort().join('|');
+
+const sameFilters = (a: DimensionFilters, b: DimensionFilters) => {
+  const normalize = (filters: DimensionFilters) => JSON.stringify(
+    Object.entries(filters).filter(([, value]) => value).sort(([x], [y]) => x.localeCompare(y))
+  );
+  return normalize(a) === normalize(b);
+};
+
+// A run belongs to the segment on screen only if it was cut the same way
+export const isSameSegment = (run: SegmentForecastRun, segment: string, segmentBy: SegmentDimension[], filters: DimensionFilters): boolean => {
+  return run.segment === segment && sameKey(run.segmentBy, segmentBy) && sameFilters(run.filters, filters);
+};
+
+export const scoreRun = (run: SegmentForecastRun, actuals: Map<string, number>): RunAccuracy | null => {
+  const forecast = run.result.forecast;
+  if (forecast.length === 0) return null;
+
+  const points: RealizedPoint[] = [];
+  let cumulativeError = 0;
+  let cumulativeActual = 0;
+  forecast.forEach((point, i) => {
+    const actual = actuals.get(point.date);
+    if (actual === undefined) return;
+    const error = point.amount - actual;
+    cumulativeError += error;
+    cumulativeActual += Math.abs(actual);
+    points.push({
+      date: point.date,
+      step: i + 1,
+      forecast: point.amount,
+      actual,
+      error,
+      percentError: actual !== 0 ? (error / Math.abs(actual)) * 100 : null,
+      cumulativeError,
+      cumulativePercent: cumulativeActual !== 0 ? (cumulativeError / cumulativeActual) * 100 : null,
+      withinInterval80: point.lower80 !== undefined && point.upper80 !== undefined
+        ? actual >= point.lower80 && actual <= point.upper80
+        : null,
+    });
+  });
+  if (points.length === 0) return null;
+
+  return {
+    run,
+    origin: addMonths(forecast[0].date, -1),
+    points,
+    metrics: computeAccuracy(points.map(p => p.actual), points.map(p => p.forecast)),
+    drift: points[points.length - 1].cumulativePercent,
+  };
+};
+
+/**
+ * Scores every saved run of the segment that has at least one realized month in 'series'.
+ * Months without source data (gap-filled or missing) are not treated as actuals.
+ * Re-runs of the same origin with the same engine keep only the newest. Sorted by origin, oldest first.
+ */
+export const trackForecastAccuracy = (runs: SegmentForecastRun[], series: MonthlyData[]): RunAccuracy[] => {
+  const actuals = new Map(series.filter(item => !item.filled && !item.missing).map(item => [item.date, item.amount]));
+
+  const latestPerOrigin = new Map<string, RunAccuracy>();
+  runs.forEach(run => {
+    const scored = scoreRun(run, actuals);
+    if (!scored) return;
+    const key = `${scored.origin}|${run.engine}|${run.model}|${run.engine === 'statistical' ? run.method : ''}`;
+    const existing = latestPerOrigin.get(key);
+    if (!existing || existing.run.createdAt < run.createdAt) latestPerOrigin.set(key, scored);
+  });
+
+  return Array.from(latestPerOrigin.values()).sort((a, b) =>
+    a.origin === b.origin ? a.run.createdAt.localeCompare(b.run.createdAt) : a.origin.localeCompare(b.origin)
+  );
+};
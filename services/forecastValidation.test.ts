@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { validateForecastResult, requestValidForecast, ForecastValidationError } from './forecastValidation';
+
+const months = (values: object[]) => ({ forecast: values, reasoning: 'r', trend: 'Up' });
+
+describe('validateForecastResult', () => {
+  it('repairs numeric strings, loose month formats, swapped bounds and extra months', () => {
+    const { result, issues } = validateForecastResult(months([
+      { date: '2024-1', amount: '1,200', lower80: 1300, upper80: 1100, lower95: -50, upper95: 1400 },
+      { date: '2024-02-01', amount: 900 },
+      { date: '2024-03', amount: 1 },
+    ]), '2023-12', 2);
+
+    expect(issues).toEqual([]);
+    expect(result!.forecast).toEqual([
+      { date: '2024-01', amount: 1200, lower80: 1100, upper80: 1300, lower95: 0, upper95: 1400 },
+      { date: '2024-02', amount: 900, lower80: undefined, upper80: undefined, lower95: undefined, upper95: undefined },
+    ]);
+    expect(result!.trend).toBe('Up');
+  });
+
+  it('rejects a short horizon', () => {
+    const { result, issues } = validateForecastResult(months([{ date: '2024-01', amount: 1 }]), '2023-12', 3);
+    expect(result).toBeNull();
+    expect(issues).toContain('Expected 3 months but got 1.');
+  });
+
+  it.each([
+    ['a skipped month', { date: '2024-02', amount: 1 }, 'must be 2024-01'],
+    ['an invalid month', { date: '2024-13', amount: 1 }, 'must be 2024-01'],
+    ['a non-numeric amount', { date: '2024-01', amount: 'n/a' }, 'is not a number'],
+    ['a negative amount', { date: '2024-01', amount: -5 }, 'is negative'],
+    ['a non-numeric bound', { date: '2024-01', amount: 5, upper80: 'high' }, 'non-numeric bound'],
+  ])('rejects %s', (_, point, message) => {
+    const { result, issues } = validateForecastResult(months([point]), '2023-12', 1);
+    expect(result).toBeNull();
+    expect(issues.join(' ')).toContain(message);
+  });
+
+  it('rejects a response without a forecast array', () => {
+    expect(validateForecastResult({ forecast: 'soon' }, '2023-12', 1).issues).toHaveLength(1);
+    expect(validateForecastResult(null, '2023-12', 1).result).toBeNull();
+  });
+});
+
+describe('requestValidForecast', () => {
+  const valid = JSON.stringify(months([{ date: '2024-01', amount: 10 }]));
+
+  it('asks again with the problems spelled out and accepts the corrected answer', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const generate = vi.fn()
+      .mockResolvedValueOnce(JSON.stringify(months([{ date: '2024-03', amount: 10 }])))
+      .mockResolvedValueOnce(valid);
+
+    const result = await requestValidForecast(generate, 'PROMPT', '2023-12', 1);
+    expect(result.forecast[0].amount).toBe(10);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate.mock.calls[1][0]).toContain('Correction Required');
+    expect(generate.mock.calls[1][0]).toContain('must be 2024-01');
+  });
+
+  it('gives up with a ForecastValidationError after the corrective attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const generate = vi.fn().mockResolvedValue('not json');
+    await expect(requestValidForecast(generate, 'PROMPT', '2023-12', 1)).rejects.toBeInstanceOf(ForecastValidationError);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
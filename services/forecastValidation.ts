@@ -0,0 +1,134 @@
+import { ForecastResult, ForecastPoint } from '../types';
+import { addMonths } from './dateUtils';
+
+// Checks AI forecast responses against the requested horizon and calendar before they reach the chart.
+// Harmless deviations (numeric strings, unordered interval bounds, extra trailing months) are repaired;
+// anything else is rejected and the model is asked once more with the problems spelled out.
+
+export class ForecastValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`ผลพยากรณ์จาก AI ไม่ถูกต้อง: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (และอีก ${issues.length - 3} รายการ)` : ''}`);
+    this.issues = issues;
+  }
+}
+
+// Corrective attempts after the first response
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.replace(/,/g, ''));
+  return NaN;
+};
+
+// Accepts 'YYYY-MM', 'YYYY-M' and 'YYYY-MM-DD'; anything else is left for the calendar check to reject
+const normalizeMonth = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  if (!match) return null;
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? `${match[1]}-${String(month).padStart(2, '0')}` : null;
+};
+
+// Optional interval bound: undefined when absent, NaN when present but unusable
+const toBound = (value: unknown): number | undefined => (value === undefined || value === null ? undefined : toNumber(value));
+
+/**
+ * Validates a parsed model response. Returns the repaired result and the list of problems;
+ * the result is only usable when 'issues' is empty.
+ */
+export const validateForecastResult = (
+  raw: unknown,
+  lastDate: string,
+  horizon: number
+): { result: ForecastResult | null; issues: string[] } => {
+  const issues: string[] = [];
+  const data = raw as Partial<Record<keyof ForecastResult, unknown>> | null;
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.forecast)) {
+    return { result: null, issues: ['Response is not an object with a "forecast" array.'] };
+  }
+
+  const points = data.forecast as Record<string, unknown>[];
+  if (points.length < horizon) {
+    issues.push(`Expected ${horizon} months but got ${points.length}.`);
+  }
+
+  const forecast: ForecastPoint[] = points.slice(0, horizon).map((point, i) => {
+    const expectedDate = addMonths(lastDate, i + 1);
+    const date = normalizeMonth(point?.date);
+    if (date !== expectedDate) {
+      issues.push(`Month ${i + 1} is "${String(point?.date)}" but must be ${expectedDate}.`);
+    }
+
+    const amount = toNumber(point?.amount);
+    if (!isFinite(amount)) issues.push(`Amount for ${expectedDate} is not a number.`);
+    else if (amount < 0) issues.push(`Amount for ${expectedDate} is negative (${amount}).`);
+
+    const bounds = [point?.lower95, point?.lower80, point?.upper80, point?.upper95].map(toBound);
+    if (bounds.some(b => b !== undefined && !isFinite(b))) {
+      issues.push(`Prediction interval for ${expectedDate} contains a non-numeric bound.`);
+    }
+
+    // Force lower95 <= lower80 <= amount <= upper80 <= upper95, lower bounds not below zero
+    let [l95, l80, u80, u95] = bounds;
+    if (l80 !== undefined && u80 !== undefined && l80 > u80) [l80, u80] = [u80, l80];
+    if (l95 !== undefined && u95 !== undefined && l95 > u95) [l95, u95] = [u95, l95];
+    const lower80 = l80 === undefined ? undefined : Math.max(0, Math.min(l80, amount));
+    const lower95 = l95 === undefined ? undefined : Math.max(0, Math.min(l95, lower80 ?? amount));
+    const upper80 = u80 === undefined ? undefined : Math.max(u80, amount);
+    const upper95 = u95 === undefined ? undefined : Math.max(u95, upper80 ?? amount);
+
+    return { date: expectedDate, amount, lower80, upper80, lower95, upper95 };
+  });
+
+  const result: ForecastResult = {
+    forecast,
+    reasoning: typeof data.reasoning === 'string' ? data.reasoning : '',
+    trend: typeof data.trend === 'string' && data.trend.trim() !== '' ? data.trend : 'Unknown',
+  };
+
+  return { result: issues.length === 0 ? result : null, issues };
+};
+
+const buildCorrectionPrompt = (prompt: string, issues: string[], lastDate: string, horizon: number): string => `${prompt}
+    **Correction Required:**
+    Your previous response was rejected for these reasons:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+    Return exactly ${horizon} consecutive months from ${addMonths(lastDate, 1)} to ${addMonths(lastDate, horizon)}, in order, with non-negative numeric amounts.
+  `;
+
+/**
+ * Sends the prompt through 'generate' and validates the answer, retrying with a
+ * corrective prompt when it is malformed. Throws ForecastValidationError when no
+ * attempt produced a usable forecast; transport errors from 'generate' propagate unchanged.
+ */
+export const requestValidForecast = async (
+  generate: (prompt: string) => Promise<string>,
+  prompt: string,
+  lastDate: string,
+  horizon: number,
+  parse: (text: string) => unknown = JSON.parse
+): Promise<ForecastResult> => {
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const text = await generate(currentPrompt);
+    let validation: { result: ForecastResult | null; issues: string[] };
+    try {
+      validation = validateForecastResult(parse(text), lastDate, horizon);
+    } catch {
+      validation = { result: null, issues: ['Response is not valid JSON.'] };
+    }
+    if (validation.result) return validation.result;
+
+    issues = validation.issues;
+    console.warn(`Forecast response rejected (attempt ${attempt + 1}):`, issues);
+    currentPrompt = buildCorrectionPrompt(prompt, issues, lastDate, horizon);
+  }
+
+  throw new ForecastValidationError(issues);
+};
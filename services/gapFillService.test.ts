@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { fillMonthlyGaps, countFilledMonths } from './gapFillService';
+import { MonthlyData } from '../types';
+
+// Two-month gap between January and April
+const series: MonthlyData[] = [{ date: '2024-01', amount: 10 }, { date: '2024-04', amount: 40 }];
+
+describe('fillMonthlyGaps', () => {
+  it.each([
+    ['zero-fill', [0, 0]],
+    ['carry-forward', [10, 10]],
+    ['interpolate', [20, 30]],
+  ] as const)('values missing months with %s', (policy, amounts) => {
+    expect(fillMonthlyGaps(series, policy)).toEqual([
+      series[0],
+      { date: '2024-02', amount: amounts[0], filled: true },
+      { date: '2024-03', amount: amounts[1], filled: true },
+      series[1],
+    ]);
+  });
+
+  it('marks missing months with an interpolated placeholder under mark-as-missing', () => {
+    expect(fillMonthlyGaps(series, 'mark-as-missing').slice(1, 3)).toEqual([
+      { date: '2024-02', amount: 20, filled: true, missing: true },
+      { date: '2024-03', amount: 30, filled: true, missing: true },
+    ]);
+  });
+
+  it('extends to the end date, repeating the last value unless zero-filling', () => {
+    expect(fillMonthlyGaps(series, 'interpolate', '2024-06').slice(4)).toEqual([
+      { date: '2024-05', amount: 40, filled: true },
+      { date: '2024-06', amount: 40, filled: true },
+    ]);
+    expect(fillMonthlyGaps(series, 'zero-fill', '2024-05')[4]).toEqual({ date: '2024-05', amount: 0, filled: true });
+  });
+
+  it('crosses year boundaries and leaves a continuous series alone', () => {
+    const yearEnd: MonthlyData[] = [{ date: '2023-12', amount: 5 }, { date: '2024-02', amount: 7 }];
+    expect(fillMonthlyGaps(yearEnd, 'zero-fill').map(item => item.date)).toEqual(['2023-12', '2024-01', '2024-02']);
+    const continuous = fillMonthlyGaps(yearEnd, 'zero-fill');
+    expect(fillMonthlyGaps(continuous, 'interpolate')).toEqual(continuous);
+    expect(countFilledMonths(continuous)).toBe(1);
+  });
+
+  it('returns an empty series unchanged', () => {
+    expect(fillMonthlyGaps([], 'zero-fill', '2024-01')).toEqual([]);
+  });
+});
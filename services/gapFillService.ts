@@ -0,0 +1,58 @@
+import { MonthlyData, GapPolicy } from '../types';
+import { addMonths, monthsBetween } from './dateUtils';
+
+// Continuous monthly calendars: months without billing are inserted and valued by the gap policy.
+
+export const GAP_POLICIES: GapPolicy[] = ['zero-fill', 'carry-forward', 'interpolate', 'mark-as-missing'];
+
+export const GAP_POLICY_LABELS: Record<GapPolicy, string> = {
+  'zero-fill': 'เติม 0',
+  'carry-forward': 'ใช้ค่าเดือนก่อนหน้า',
+  'interpolate': 'ประมาณค่าเชิงเส้น',
+  'mark-as-missing': 'ระบุว่าไม่มีข้อมูล',
+};
+
+// No billing in a month usually means nothing was billed
+export const DEFAULT_GAP_POLICY: GapPolicy = 'zero-fill';
+
+/**
+ * Fills every month from the first observation up to 'endDate' (defaults to the
+ * last observation), so segments that stopped billing still line up with the total.
+ * Leading months are never added: a segment's history starts when it first bills.
+ * Under 'mark-as-missing' the amount is an interpolated placeholder for numeric
+ * models; the AI engine and the chart treat the month as having no value.
+ * Trailing months have nothing to interpolate towards and repeat the last value.
+ */
+export const fillMonthlyGaps = (series: MonthlyData[], policy: GapPolicy, endDate?: string): MonthlyData[] => {
+  if (series.length === 0) return series;
+
+  const lastDate = endDate && endDate > series[series.length - 1].date ? endDate : series[series.length - 1].date;
+  const filled: MonthlyData[] = [];
+
+  for (let i = 0; i < series.length; i++) {
+    const current = series[i];
+    filled.push(current);
+
+    const nextDate = i + 1 < series.length ? series[i + 1].date : addMonths(lastDate, 1);
+    const missing = monthsBetween(current.date, nextDate) - 1;
+    const next = i + 1 < series.length ? series[i + 1] : null;
+
+    for (let k = 1; k <= missing; k++) {
+      let amount: number;
+      if (policy === 'zero-fill') {
+        amount = 0;
+      } else if (policy === 'carry-forward' || !next) {
+        amount = current.amount;
+      } else {
+        amount = current.amount + ((next.amount - current.amount) * k) / (missing + 1);
+      }
+      filled.push(policy === 'mark-as-missing'
+        ? { date: addMonths(current.date, k), amount, filled: true, missing: true }
+        : { date: addMonths(current.date, k), amount, filled: true });
+    }
+  }
+
+  return filled;
+};
+
+export const countFilledMonths = (series: MonthlyData[]): number => series.filter(item => item.filled).length;
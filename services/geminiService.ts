@@ -1,12 +1,31 @@
 
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { MonthlyData, ForecastResult } from '../types';
+import { MonthlyData, ForecastResult, ForecastOptions, ForecastRequestControl } from '../types';
+import { buildForecastPrompt, FORECAST_SYSTEM_INSTRUCTION } from './forecastPrompt';
+import { requestValidForecast, ForecastValidationError } from './forecastValidation';
+import { withRetry, isAbortError } from './requestRetry';
 
 // Note: We do NOT initialize 'ai' globally here. 
 // Doing so causes the app to crash immediately on load if the key is missing or invalid.
 
-export const getForecast = async (history: MonthlyData[], segmentName: string = 'Total Portfolio'): Promise<ForecastResult> => {
-  
+// Lets the UI decide up-front whether the AI engine is usable
+export const hasGeminiApiKey = (): boolean => {
+  const apiKey = process.env.API_KEY;
+  return !!apiKey && apiKey.trim() !== '';
+};
+
+// Model can be changed per deployment via GEMINI_MODEL
+export const getGeminiModel = (): string => {
+  const model = process.env.GEMINI_MODEL;
+  return model && model.trim() !== '' ? model.trim() : 'gemini-2.5-flash';
+};
+
+export const getForecast = async (
+  history: MonthlyData[],
+  segmentName: string = 'Total Portfolio',
+  options: Partial<ForecastOptions> = {},
+  control: ForecastRequestControl = {}
+): Promise<ForecastResult> => {
   // 1. Get API Key explicitly from process.env.API_KEY as per Google GenAI Guidelines
   // Note: In a Vite environment, ensure API_KEY is properly exposed via define or environment variables configuration.
   const apiKey = process.env.API_KEY;
@@ -25,43 +44,8 @@ export const getForecast = async (history: MonthlyData[], segmentName: string =
     throw new Error(`ไม่สามารถเชื่อมต่อกับ Gemini API ได้: ${initError.message}`);
   }
 
-  // 3. Validate Data Integrity
-  if (!history || history.length === 0) {
-    throw new Error("ไม่พบข้อมูลสำหรับการพยากรณ์");
-  }
-
-  // Require at least 6 months of data for a somewhat reliable forecast
-  if (history.length < 6) {
-    throw new Error(`ข้อมูลไม่เพียงพอ: มีข้อมูลเพียง ${history.length} เดือน (ต้องการอย่างน้อย 6 เดือนเพื่อการพยากรณ์ที่แม่นยำ)`);
-  }
-
-  // Use up to 36 months to better detect seasonality (Year-over-Year patterns)
-  const recentHistory = history.slice(-36);
-  const lastDate = recentHistory.length > 0 ? recentHistory[recentHistory.length - 1].date : 'Unknown';
-
-  // Enhanced Prompt for Pattern Recognition
-  const prompt = `
-    You are an expert Senior Financial Data Analyst specializing in Accounts Receivable (AR) forecasting.
-    
-    **Input Data:**
-    - Segment: "${segmentName}"
-    - Historical Data (Monthly): ${JSON.stringify(recentHistory)}
-    
-    **Your Task:**
-    1. **Analyze Patterns**: Identify specific patterns in the historical data. Look for:
-       - **Seasonality**: Are there recurring peaks or drops in specific months? (e.g., Is December always high? Is April low?)
-       - **Trend**: Is the overall direction increasing, decreasing, or stable over the last 12 months?
-       - **Volatility**: Are there random spikes that should be treated as outliers?
-    
-    2. **Generate Forecast**: Predict the 'amount' for the NEXT 6 months starting after ${lastDate}.
-       - The forecast MUST respect the identified seasonality. (e.g., If history shows Q4 is strong, the forecast for Q4 months should reflect that).
-       - Apply the identified trend to the projection.
-    
-    3. **Explain Reasoning**: Provide a concise explanation citing specific months or trends observed (e.g., "Forecast anticipates a seasonal dip in January based on previous years...").
-
-    **Output Format:**
-    Return strictly JSON using the defined schema.
-  `;
+  // 3. Validate Data Integrity and build the prompt
+  const { prompt, horizon, lastDate } = buildForecastPrompt(history, segmentName, options);
 
   const responseSchema: Schema = {
     type: Type.OBJECT,
@@ -72,11 +56,15 @@ export const getForecast = async (history: MonthlyData[], segmentName: string =
           type: Type.OBJECT,
           properties: {
             date: { type: Type.STRING, description: "Format YYYY-MM" },
-            amount: { type: Type.NUMBER, description: "Forecasted amount" }
+            amount: { type: Type.NUMBER, description: "Forecasted amount" },
+            lower80: { type: Type.NUMBER, description: "Lower bound of the 80% prediction interval" },
+            upper80: { type: Type.NUMBER, description: "Upper bound of the 80% prediction interval" },
+            lower95: { type: Type.NUMBER, description: "Lower bound of the 95% prediction interval" },
+            upper95: { type: Type.NUMBER, description: "Upper bound of the 95% prediction interval" }
           },
-          required: ["date", "amount"]
+          required: ["date", "amount", "lower80", "upper80", "lower95", "upper95"]
         },
-        description: "Array of exactly 6 forecasted months"
+        description: `Array of exactly ${horizon} forecasted months`
       },
       reasoning: {
         type: Type.STRING,
@@ -90,25 +78,30 @@ export const getForecast = async (history: MonthlyData[], segmentName: string =
     required: ["forecast", "reasoning", "trend"]
   };
 
-  try {
+  const generate = (contents: string): Promise<string> => withRetry(async (abortSignal) => {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+      model: getGeminiModel(),
+      contents,
       config: {
         responseMimeType: "application/json",
         responseSchema: responseSchema,
         // System instruction helps set the analytical persona
-        systemInstruction: "You are a precise financial forecasting engine. Focus on data patterns. Do not hallucinate numbers. Use weighted moving averages or regression logic implicitly for predictions.",
+        systemInstruction: FORECAST_SYSTEM_INSTRUCTION,
         temperature: 0.2, // Lower temperature for more deterministic/mathematical results
+        abortSignal,
       },
     });
 
     const text = response.text;
     if (!text) throw new Error("Empty response from AI model");
+    return text;
+  }, control);
 
-    return JSON.parse(text) as ForecastResult;
-
+  try {
+    return await requestValidForecast(generate, prompt, lastDate, horizon);
   } catch (error: any) {
+    // Malformed answers are handled by the caller (statistical fallback)
+    if (error instanceof ForecastValidationError || isAbortError(error)) throw error;
     console.error("Gemini API Error:", error);
     // Enhance error message for UI
     if (error.message && error.message.includes("429")) {
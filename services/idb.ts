@@ -0,0 +1,51 @@
+// Minimal promise wrapper around one IndexedDB object store.
+// Each store gets its own database so stores can be added without coordinating schema versions.
+
+export interface IdbStore<T> {
+  get: (key: string) => Promise<T | undefined>;
+  getAll: () => Promise<T[]>;
+  put: (value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const createIdbStore = <T>(dbName: string, storeName: string, keyPath: string): IdbStore<T> => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again instead of caching the failure
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const run = async <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await openDatabase();
+    return new Promise<R>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: key => run<T | undefined>('readonly', store => store.get(key)),
+    getAll: () => run<T[]>('readonly', store => store.getAll()),
+    put: async value => { await run('readwrite', store => store.put(value)); },
+    delete: async key => { await run('readwrite', store => store.delete(key)); },
+    clear: async () => { await run('readwrite', store => store.clear()); },
+  };
+};
@@ -0,0 +1,30 @@
+import { ColumnMapping } from '../types';
+
+// Remembers the column mapping chosen for each export layout (header signature) in localStorage.
+
+const STORAGE_KEY = 'ai-ar-forecaster:column-mappings';
+
+const readAll = (): Record<string, ColumnMapping> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Mapping Store Read Error:", error);
+    return {};
+  }
+};
+
+export const loadSavedMapping = (signature: string): ColumnMapping | null => {
+  return readAll()[signature] ?? null;
+};
+
+export const saveMapping = (signature: string, mapping: ColumnMapping): void => {
+  try {
+    const all = readAll();
+    all[signature] = mapping;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    // Storage full or disabled: mapping still applies to this upload
+    console.error("Mapping Store Write Error:", error);
+  }
+};
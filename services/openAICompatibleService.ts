@@ -0,0 +1,83 @@
+import { MonthlyData, ForecastResult, ForecastOptions, ForecastRequestControl } from '../types';
+import { buildForecastPrompt, FORECAST_SYSTEM_INSTRUCTION, FORECAST_JSON_FORMAT } from './forecastPrompt';
+import { requestValidForecast, ForecastValidationError } from './forecastValidation';
+import { withRetry, isAbortError, HttpStatusError } from './requestRetry';
+
+// Forecasts through any OpenAI-compatible chat completions endpoint,
+// e.g. a local Ollama (http://localhost:11434/v1) or llama.cpp server.
+
+export const hasOpenAICompatibleEndpoint = (): boolean => {
+  const baseUrl = process.env.LLM_BASE_URL;
+  return !!baseUrl && baseUrl.trim() !== '';
+};
+
+export const getOpenAICompatibleModel = (): string => {
+  const model = process.env.LLM_MODEL;
+  return model && model.trim() !== '' ? model.trim() : 'llama3.1';
+};
+
+// Local models often wrap JSON in markdown fences despite being asked not to
+const extractJSON = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start >= 0 && end > start ? body.slice(start, end + 1) : body;
+};
+
+export const getOpenAICompatibleForecast = async (
+  history: MonthlyData[],
+  segmentName: string = 'Total Portfolio',
+  options: Partial<ForecastOptions> = {},
+  control: ForecastRequestControl = {}
+): Promise<ForecastResult> => {
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!baseUrl || baseUrl.trim() === '') {
+    throw new Error("ไม่พบ LLM Endpoint (process.env.LLM_BASE_URL) กรุณาตรวจสอบการตั้งค่า Environment Variables");
+  }
+
+  const { prompt, horizon, lastDate } = buildForecastPrompt(history, segmentName, options, FORECAST_JSON_FORMAT);
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const apiKey = process.env.LLM_API_KEY;
+  if (apiKey && apiKey.trim() !== '') headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+
+  const generate = (content: string): Promise<string> => withRetry(async (signal) => {
+    const response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: getOpenAICompatibleModel(),
+        messages: [
+          { role: 'system', content: FORECAST_SYSTEM_INSTRUCTION },
+          { role: 'user', content },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new HttpStatusError(response.status, `HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("Empty response from AI model");
+    return text;
+  }, control);
+
+  try {
+    return await requestValidForecast(generate, prompt, lastDate, horizon, text => JSON.parse(extractJSON(text)));
+  } catch (error: any) {
+    // Malformed answers are handled by the caller (statistical fallback)
+    if (error instanceof ForecastValidationError || isAbortError(error)) throw error;
+    console.error("LLM API Error:", error);
+    if (error.message && error.message.includes("429")) {
+      throw new Error("ระบบกำลังทำงานหนักเกินไป (Rate Limit) กรุณารอสักครู่แล้วลองใหม่");
+    }
+    throw new Error("LLM ไม่สามารถวิเคราะห์ข้อมูลได้ในขณะนี้: " + (error.message || "Unknown Error"));
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { detectOutliers, cleanSeries, DEFAULT_OUTLIER_METHOD } from './outlierService';
+import { MonthlyData } from '../types';
+
+// Three years of a growing series with a December peak and a little deterministic noise
+const seasonal = (spikes: Record<number, number> = {}): MonthlyData[] =>
+  Array.from({ length: 36 }, (_, i) => ({
+    date: `${2021 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+    amount: 1000 + 5 * i + (i % 12 === 11 ? 400 : 0) + ((i * 37) % 11) * 6 + (spikes[i] ?? 0),
+  }));
+
+describe('detectOutliers', () => {
+  it.each(['hampel', 'stl'] as const)('leaves recurring seasonal peaks alone with %s', (method) => {
+    expect(detectOutliers(seasonal(), method)).toEqual([]);
+  });
+
+  it('keeps the seasonal shape of the series with the default method', () => {
+    const series = seasonal();
+    expect(cleanSeries(series, DEFAULT_OUTLIER_METHOD).cleaned).toEqual(series);
+  });
+
+  it('flags a one-off spike and replaces it with the same month of the other years', () => {
+    const [flag, ...rest] = detectOutliers(seasonal({ 20: 1500 }), 'hampel');
+    expect(rest).toEqual([]);
+    expect(flag.date).toBe('2022-09');
+    expect(flag.expected).toBeGreaterThan(1100);
+    expect(flag.expected).toBeLessThan(1200);
+  });
+
+  it('never flags gap-filled months', () => {
+    const series = seasonal();
+    series[15] = { ...series[15], amount: 0, filled: true };
+    expect(detectOutliers(series, 'hampel').map(flag => flag.date)).not.toContain(series[15].date);
+  });
+
+  it('returns nothing for method none or too little history', () => {
+    expect(detectOutliers(seasonal({ 20: 1500 }), 'none')).toEqual([]);
+    expect(detectOutliers(seasonal({ 2: 1500 }).slice(0, 5), 'hampel')).toEqual([]);
+  });
+});
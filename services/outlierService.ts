@@ -0,0 +1,164 @@
+import { MonthlyData, OutlierMethod, OutlierFlag, OutlierDecisions } from '../types';
+import { stlDecompose, canEstimateSeasonality } from './decompositionService';
+
+// Flags anomalous months (e.g. one-off bulk billings) and builds the cleaned series the forecasters see.
+// Gap-filled months are never flagged: they carry no source data of their own.
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  'none': 'ไม่ปรับ',
+  'iqr': 'IQR',
+  'hampel': 'Hampel Filter',
+  'stl': 'STL Residuals',
+};
+
+export const DEFAULT_OUTLIER_METHOD: OutlierMethod = 'hampel';
+
+const IQR_MULTIPLIER = 1.5;
+const HAMPEL_HALF_WINDOW = 3;
+const SEASON_LENGTH = 12;
+const ROBUST_THRESHOLD = 3; // In robust standard deviations (1.4826 × MAD)
+const MAD_SCALE = 1.4826;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[Math.min(base + 1, sorted.length - 1)];
+  return sorted[base] + (next - sorted[base]) * (pos - base);
+};
+
+// Median of the surrounding months, excluding the month itself
+const localMedian = (y: number[], t: number): number => {
+  const from = Math.max(0, t - HAMPEL_HALF_WINDOW);
+  const to = Math.min(y.length, t + HAMPEL_HALF_WINDOW + 1);
+  return median([...y.slice(from, t), ...y.slice(t + 1, to)]);
+};
+
+// Each detector returns, per month, the expected value and a score (> 1 means outlier)
+type Detector = (y: number[]) => { expected: number; score: number }[];
+
+// Tukey fences on the whole series; expected value is the local median
+const detectIqr: Detector = (y) => {
+  const sorted = [...y].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = IQR_MULTIPLIER * (q3 - q1);
+  return y.map((v, t) => {
+    const distance = v < q1 ? q1 - v : v > q3 ? v - q3 : 0;
+    return { expected: localMedian(y, t), score: fence > 0 ? distance / fence : 0 };
+  });
+};
+
+// Deviation from the rolling median of ±3 months, in robust standard deviations
+const localHampel: Detector = (y) => {
+  return y.map((v, t) => {
+    const from = Math.max(0, t - HAMPEL_HALF_WINDOW);
+    const window = y.slice(from, Math.min(y.length, t + HAMPEL_HALF_WINDOW + 1));
+    const m = median(window);
+    const sigma = MAD_SCALE * median(window.map(w => Math.abs(w - m)));
+    return { expected: m, score: sigma > 0 ? Math.abs(v - m) / (ROBUST_THRESHOLD * sigma) : 0 };
+  });
+};
+
+// Same calendar month in the other years, shifted by how the 12-month median level moved in between
+const seasonalHampel: Detector = (y) => {
+  const half = SEASON_LENGTH / 2;
+  const level = y.map((_, t) => median(y.slice(Math.max(0, t - half), Math.min(y.length, t + half))));
+  const expected = y.map((_, t) => {
+    const peers: number[] = [];
+    for (let s = t % SEASON_LENGTH; s < y.length; s += SEASON_LENGTH) {
+      if (s !== t) peers.push(y[s] + level[t] - level[s]);
+    }
+    return median(peers);
+  });
+  const residuals = y.map((v, t) => v - expected[t]);
+  const center = median(residuals);
+  const sigma = MAD_SCALE * median(residuals.map(r => Math.abs(r - center)));
+  return y.map((_, t) => ({ expected: expected[t], score: sigma > 0 ? Math.abs(residuals[t]) / (ROBUST_THRESHOLD * sigma) : 0 }));
+};
+
+/**
+ * Hampel filter. With two or more years of history a month must stand out both from its
+ * neighbours and from the same month in other years, so recurring peaks (e.g. every December)
+ * are left alone; the same-month estimate then replaces it.
+ */
+const detectHampel: Detector = (y) => {
+  const local = localHampel(y);
+  if (!canEstimateSeasonality(y.length)) return local;
+  return seasonalHampel(y).map((seasonal, t) => ({ expected: seasonal.expected, score: Math.min(seasonal.score, local[t].score) }));
+};
+
+// Robust STL remainder; expected value is trend + seasonal
+const detectStl: Detector = (y) => {
+  const { trend, seasonal, remainder } = stlDecompose(y, true);
+  const sigma = MAD_SCALE * median(remainder.map(r => Math.abs(r - median(remainder))));
+  return y.map((_, t) => ({
+    expected: trend[t] + seasonal[t],
+    score: sigma > 0 ? Math.abs(remainder[t]) / (ROBUST_THRESHOLD * sigma) : 0,
+  }));
+};
+
+const DETECTORS: Record<Exclude<OutlierMethod, 'none'>, Detector> = {
+  iqr: detectIqr,
+  hampel: detectHampel,
+  stl: detectStl,
+};
+
+// Too little history to tell a spike from normal variation
+const MIN_POINTS = 6;
+
+export const detectOutliers = (series: MonthlyData[], method: OutlierMethod): OutlierFlag[] => {
+  if (method === 'none' || series.length < MIN_POINTS) return [];
+
+  const y = series.map(item => item.amount);
+  const results = DETECTORS[method](y);
+
+  return series
+    .map((item, t) => ({
+      date: item.date,
+      actual: item.amount,
+      // Billing amounts don't go below zero after an adjustment
+      expected: Math.max(0, results[t].expected),
+      score: results[t].score,
+      filled: item.filled,
+    }))
+    .filter(flag => flag.score > 1 && !flag.filled)
+    .map(({ filled, ...flag }) => flag);
+};
+
+/**
+ * Replaces flagged months according to the user's decisions:
+ * no decision = use the detector's expected value, null = keep the original,
+ * a number = user override.
+ */
+export const applyOutlierAdjustments = (
+  series: MonthlyData[],
+  outliers: OutlierFlag[],
+  decisions: OutlierDecisions = {}
+): MonthlyData[] => {
+  if (outliers.length === 0) return series;
+  const flags = new Map(outliers.map(flag => [flag.date, flag]));
+
+  return series.map(item => {
+    const flag = flags.get(item.date);
+    if (!flag) return item;
+    const decision = decisions[item.date];
+    if (decision === null) return item;
+    return { ...item, amount: decision ?? flag.expected, adjusted: true };
+  });
+};
+
+// Detection and adjustment in one step, as used before every forecast
+export const cleanSeries = (
+  series: MonthlyData[],
+  method: OutlierMethod,
+  decisions: OutlierDecisions = {}
+): { outliers: OutlierFlag[]; cleaned: MonthlyData[] } => {
+  const outliers = detectOutliers(series, method);
+  return { outliers, cleaned: applyOutlierAdjustments(series, outliers, decisions) };
+};
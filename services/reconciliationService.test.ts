@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileForecasts, coherenceGap, historicalProportions } from './reconciliationService';
+import { regroupDataset } from './segmentService';
+import { createDataQualityTracker } from './dataQualityService';
+import { FactRow, ForecastPoint } from '../types';
+
+// Twelve months where RES bills three times as much as COM, with some month-to-month noise
+const facts: FactRow[] = Array.from({ length: 12 }, (_, i) => {
+  const date = `2024-${String(i + 1).padStart(2, '0')}`;
+  return [
+    { date, amount: 300 + (i % 3) * 30, dims: { accountclass: 'RES' } },
+    { date, amount: 100 + (i % 2) * 10, dims: { accountclass: 'COM' } },
+  ];
+}).flat();
+const dataset = regroupDataset(
+  { facts, dimensions: ['accountclass'], dimensionValues: { accountclass: ['COM', 'RES'] }, quality: createDataQualityTracker().build([]) },
+  ['accountclass']
+);
+
+const point = (date: string, amount: number): ForecastPoint => ({ date, amount, lower80: amount - 10, upper80: amount + 10 });
+// Base forecasts that don't add up: 500 total against 330 + 110 from the classes
+const total = [point('2025-01', 500), point('2025-02', 520)];
+const classes = { RES: [point('2025-01', 330), point('2025-02', 340)], COM: [point('2025-01', 110), point('2025-02', 115)] };
+
+describe('reconcileForecasts', () => {
+  it.each(['bottom-up', 'top-down', 'mint'] as const)('makes the total equal the sum of the classes with %s', (method) => {
+    const result = reconcileForecasts(dataset, total, classes, method);
+    expect(coherenceGap(result.total, result.byClass)).toBe(0);
+    expect(Object.keys(result.byClass).sort()).toEqual(['COM', 'RES']);
+  });
+
+  it('keeps the total forecast and splits it by historical share with top-down', () => {
+    const result = reconcileForecasts(dataset, total, classes, 'top-down');
+    const share = historicalProportions(dataset);
+    result.total.forEach((item, i) => expect(item.amount).toBeCloseTo(total[i].amount, 9));
+    expect(result.byClass.RES[0].amount).toBeCloseTo(500 * share.RES, 9);
+    expect(share.RES + share.COM).toBeCloseTo(1, 12);
+  });
+
+  it('spreads the gap between total and classes with MinT, more to the noisier class', () => {
+    const result = reconcileForecasts(dataset, total, classes, 'mint');
+    const resShift = result.byClass.RES[0].amount - 330;
+    const comShift = result.byClass.COM[0].amount - 110;
+    expect(resShift).toBeGreaterThan(comShift);
+    expect(comShift).toBeGreaterThan(0);
+    // The reconciled total lies between the base total and the base class sum
+    expect(result.total[0].amount).toBeGreaterThan(440);
+    expect(result.total[0].amount).toBeLessThan(500);
+    // Intervals move with the point forecast
+    expect(result.byClass.RES[0].upper80! - result.byClass.RES[0].amount).toBeCloseTo(10, 9);
+  });
+
+  it('leaves already coherent forecasts unchanged with MinT', () => {
+    const coherent = [point('2025-01', 440), point('2025-02', 455)];
+    const result = reconcileForecasts(dataset, coherent, classes, 'mint');
+    result.byClass.RES.forEach((item, i) => expect(item.amount).toBeCloseTo(classes.RES[i].amount, 9));
+    result.total.forEach((item, i) => expect(item.amount).toBeCloseTo(coherent[i].amount, 9));
+  });
+});
@@ -0,0 +1,116 @@
+import { MonthlyData, ForecastPoint, ParsedDataSet, ReconciliationMethod, ReconciledForecast } from '../types';
+
+// Makes independently produced forecasts coherent across the hierarchy:
+// Total Portfolio = sum of every account class, month by month.
+
+export const RECONCILIATION_LABELS: Record<ReconciliationMethod, string> = {
+  'bottom-up': 'Bottom-Up',
+  'top-down': 'Top-Down (Proportional)',
+  'mint': 'MinT (Optimal Combination)',
+};
+
+// Shift a forecast point (and its interval, if any) to a new value
+const withAmount = (point: ForecastPoint, amount: number): ForecastPoint => {
+  const delta = amount - point.amount;
+  const shift = (v?: number) => v === undefined ? undefined : v + delta;
+  return {
+    date: point.date,
+    amount,
+    lower80: shift(point.lower80),
+    upper80: shift(point.upper80),
+    lower95: shift(point.lower95),
+    upper95: shift(point.upper95),
+  };
+};
+
+const amountOn = (series: ForecastPoint[], date: string): ForecastPoint => {
+  return series.find(item => item.date === date) ?? { date, amount: 0 };
+};
+
+// Share of each class in the total over the most recent 'window' months of history
+export const historicalProportions = (dataset: ParsedDataSet, window: number = 12): Record<string, number> => {
+  const dates = new Set(dataset.totalByDate.slice(-window).map(item => item.date));
+  const classSums: Record<string, number> = {};
+  let grandSum = 0;
+
+  dataset.availableClasses.forEach(cls => {
+    classSums[cls] = (dataset.byClass[cls] || [])
+      .filter(item => dates.has(item.date))
+      .reduce((acc, item) => acc + item.amount, 0);
+    grandSum += classSums[cls];
+  });
+
+  const proportions: Record<string, number> = {};
+  dataset.availableClasses.forEach(cls => {
+    proportions[cls] = grandSum === 0 ? 1 / dataset.availableClasses.length : classSums[cls] / grandSum;
+  });
+  return proportions;
+};
+
+// Variance of one-step naive errors; a cheap proxy for base forecast error variance
+const naiveErrorVariance = (history: MonthlyData[]): number => {
+  if (history.length < 2) return 1;
+  const diffs = history.slice(1).map((item, i) => item.amount - history[i].amount);
+  const variance = diffs.reduce((acc, d) => acc + d * d, 0) / diffs.length;
+  return variance > 0 ? variance : 1;
+};
+
+export const reconcileForecasts = (
+  dataset: ParsedDataSet,
+  totalForecast: ForecastPoint[],
+  classForecasts: Record<string, ForecastPoint[]>,
+  method: ReconciliationMethod
+): ReconciledForecast => {
+  const classes = dataset.availableClasses.filter(cls => classForecasts[cls]);
+  const dates = totalForecast.map(item => item.date);
+  const byClass: Record<string, ForecastPoint[]> = {};
+  classes.forEach(cls => { byClass[cls] = []; });
+
+  if (method === 'top-down') {
+    const proportions = historicalProportions(dataset);
+    const proportionSum = classes.reduce((acc, cls) => acc + proportions[cls], 0) || 1;
+    dates.forEach(date => {
+      const total = amountOn(totalForecast, date).amount;
+      classes.forEach(cls => {
+        byClass[cls].push(withAmount(amountOn(classForecasts[cls], date), total * proportions[cls] / proportionSum));
+      });
+    });
+  } else if (method === 'mint') {
+    // Diagonal-W MinT for a two-level hierarchy has a closed form: each class absorbs
+    // the incoherence (total - sum of classes) in proportion to its error variance.
+    const totalVariance = naiveErrorVariance(dataset.totalByDate);
+    const classVariance: Record<string, number> = {};
+    classes.forEach(cls => { classVariance[cls] = naiveErrorVariance(dataset.byClass[cls] || []); });
+    const varianceSum = classes.reduce((acc, cls) => acc + classVariance[cls], 0);
+
+    dates.forEach(date => {
+      const total = amountOn(totalForecast, date).amount;
+      const classSum = classes.reduce((acc, cls) => acc + amountOn(classForecasts[cls], date).amount, 0);
+      const gap = total - classSum;
+      classes.forEach(cls => {
+        const base = amountOn(classForecasts[cls], date);
+        byClass[cls].push(withAmount(base, base.amount + (classVariance[cls] / (totalVariance + varianceSum)) * gap));
+      });
+    });
+  } else {
+    dates.forEach(date => {
+      classes.forEach(cls => { byClass[cls].push(amountOn(classForecasts[cls], date)); });
+    });
+  }
+
+  // The total is always re-derived from the classes so the result is exactly coherent
+  const total = dates.map(date => withAmount(
+    amountOn(totalForecast, date),
+    classes.reduce((acc, cls) => acc + amountOn(byClass[cls], date).amount, 0)
+  ));
+
+  return { method, total, byClass };
+};
+
+// Largest absolute monthly difference between the total and the sum of its classes
+export const coherenceGap = (totalForecast: ForecastPoint[], classForecasts: Record<string, ForecastPoint[]>): number => {
+  return totalForecast.reduce((worst, point) => {
+    const classSum = Object.values(classForecasts).reduce((acc, series) => acc + amountOn(series, point.date).amount, 0);
+    return Math.max(worst, Math.abs(point.amount - classSum));
+  }, 0);
+};
@@ -0,0 +1,105 @@
+import { ForecastReport } from '../types';
+import { rejectedRowCount } from './dataQualityService';
+
+// Printable forecast report: a standalone HTML page opened in a new window and sent to the
+// browser's print dialog, where it can be saved as PDF.
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatAmount = (value: number | undefined) =>
+  value === undefined ? '–' : new Intl.NumberFormat('th-TH', { maximumFractionDigits: 0 }).format(value);
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+const STYLES = `
+  body { font-family: 'Inter', 'Sarabun', system-ui, sans-serif; color: #1e293b; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .meta { color: #64748b; }
+  .stats { display: flex; gap: 16px; margin-top: 16px; }
+  .stat { flex: 1; border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 12px; }
+  .stat p { margin: 0; }
+  .stat .label { color: #64748b; font-size: 10px; text-transform: uppercase; letter-spacing: 0.05em; }
+  .stat .value { font-size: 16px; font-weight: 700; }
+  .chart svg { width: 100%; height: auto; }
+  .reasoning { white-space: pre-line; line-height: 1.6; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #f1f5f9; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { color: #64748b; font-size: 10px; text-transform: uppercase; }
+  .banner { background: #fffbeb; border: 1px solid #fde68a; color: #92400e; padding: 8px 12px; border-radius: 8px; margin-top: 12px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+export const renderForecastReport = (report: ForecastReport): string => {
+  const { result, history, quality } = report;
+  const rejected = rejectedRowCount(quality);
+  const rows = result.forecast.map(point => `
+    <tr>
+      <td>${escapeHtml(point.date)}</td>
+      <td>${formatAmount(point.amount)}</td>
+      <td>${formatAmount(point.lower80)} – ${formatAmount(point.upper80)}</td>
+      <td>${formatAmount(point.lower95)} – ${formatAmount(point.upper95)}</td>
+    </tr>`).join('');
+  const gaps = quality.gaps.map(gap =>
+    `<li>${escapeHtml(gap.segment)}: ${escapeHtml(gap.from)} – ${escapeHtml(gap.to)} (${gap.months} เดือน)</li>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="th">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(`AR Forecast · ${report.segmentLabel}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>AR Forecast Report · ${escapeHtml(report.segmentLabel)}</h1>
+  <p class="meta">${escapeHtml(report.fileName)} · ${escapeHtml(report.engineLabel)} · พิมพ์เมื่อ ${escapeHtml(new Date().toLocaleString('th-TH'))}</p>
+  ${result.fallback ? `<p class="banner">ใช้ผลจากโมเดลสถิติแทน AI: ${escapeHtml(result.fallback.reason)}</p>` : ''}
+
+  <div class="stats">
+    <div class="stat"><p class="label">Market Trend</p><p class="value">${escapeHtml(result.trend)}</p></div>
+    <div class="stat"><p class="label">Next ${result.forecast.length} Months Forecast</p><p class="value">${formatAmount(sum(result.forecast.map(p => p.amount)))}</p></div>
+    <div class="stat"><p class="label">Historical Volume (${history.length} months)</p><p class="value">${formatAmount(sum(history.map(p => p.amount)))}</p></div>
+  </div>
+
+  ${report.chartSvg ? `<h2>Forecast Visualization</h2><div class="chart">${report.chartSvg}</div>` : ''}
+
+  <h2>Insight</h2>
+  <p class="reasoning">${escapeHtml(result.reasoning)}</p>
+
+  <h2>Monthly Forecast</h2>
+  <table>
+    <thead><tr><th>Month</th><th>Forecast</th><th>80% interval</th><th>95% interval</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <h2>Data Quality</h2>
+  <p>ใช้ได้ ${formatAmount(quality.acceptedRows)} จาก ${formatAmount(quality.totalRows)} แถว · ถูกข้าม ${formatAmount(rejected)} แถว ·
+    ซ้ำ ${formatAmount(quality.duplicateRows)} แถว · ยอดติดลบ ${formatAmount(quality.negativeRows)} แถว (${formatAmount(quality.negativeTotal)})</p>
+  ${gaps ? `<p>เดือนที่ไม่มีข้อมูล:</p><ul>${gaps}</ul>` : ''}
+</body>
+</html>`;
+};
+
+// Opens the report in a new window and prints it once the page has rendered
+export const printForecastReport = (report: ForecastReport): void => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error("เบราว์เซอร์บล็อกหน้าต่างรายงาน กรุณาอนุญาต Pop-up แล้วลองใหม่");
+  }
+  win.document.open();
+  win.document.write(renderForecastReport(report));
+  win.document.close();
+  win.focus();
+  // document.write pages may already be complete, in which case onload never fires
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    win.print();
+  };
+  win.onload = print;
+  if (win.document.readyState === 'complete') print();
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { withRetry, HttpStatusError, isAbortError, RetryPolicy } from './requestRetry';
+
+// No real waiting: zero backoff and a short per-attempt timeout
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 50 };
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('withRetry', () => {
+  it('retries retryable failures and reports each retry', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new HttpStatusError(503, 'unavailable'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(request, { onRetry }, policy)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([state]) => state.attempt)).toEqual([2, 3]);
+  });
+
+  it('does not retry a non-retryable error', async () => {
+    const error = new HttpStatusError(400, 'bad request');
+    const request = vi.fn().mockRejectedValue(error);
+    await expect(withRetry(request, {}, policy)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the last attempt with the last error', async () => {
+    const request = vi.fn().mockRejectedValue(new Error('429 RESOURCE_EXHAUSTED'));
+    await expect(withRetry(request, {}, policy)).rejects.toThrow('RESOURCE_EXHAUSTED');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out a hanging attempt and retries it', async () => {
+    const request = vi.fn()
+      .mockImplementationOnce((signal: AbortSignal) => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(request, { onRetry }, policy)).resolves.toBe('ok');
+    expect(onRetry.mock.calls[0][0].reason).toBe('หมดเวลารอผลตอบกลับ');
+  });
+
+  it('rejects with an AbortError and makes no further attempts once aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockImplementation((signal: AbortSignal) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+      controller.abort();
+    }));
+
+    const error = await withRetry(request, { signal: controller.signal }, policy).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a request when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const request = vi.fn();
+    const error = await withRetry(request, { signal: controller.signal }, policy).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
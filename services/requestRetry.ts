@@ -0,0 +1,133 @@
+import { RetryState, ForecastRequestControl } from '../types';
+
+// Retries for remote forecast requests: exponential backoff with full jitter,
+// a timeout per attempt and cancellation through an AbortSignal.
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number; // Per attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  timeoutMs: 90000, // Local models can take a while on long histories
+};
+
+// Error with the HTTP status of a failed response, so retryable statuses can be recognised
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class RequestTimeoutError extends Error {}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+const createAbortError = (): Error => {
+  const error = new Error("ยกเลิกคำขอแล้ว");
+  error.name = 'AbortError';
+  return error;
+};
+
+// Rate limits, server hiccups, timeouts and dropped connections are worth another try; bad requests are not
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  if (error instanceof TypeError) return true; // fetch() network failure
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.includes(status);
+  const message = error instanceof Error ? error.message : '';
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE/.test(message);
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof RequestTimeoutError) return 'หมดเวลารอผลตอบกลับ';
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || (error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message))) return 'ถูกจำกัดจำนวนคำขอ (Rate Limit)';
+  if (error instanceof TypeError) return 'เชื่อมต่อเครือข่ายไม่ได้';
+  return 'เซิร์ฟเวอร์ไม่พร้อมให้บริการชั่วคราว';
+};
+
+// Full jitter: uniform in [0, min(maxDelay, base × 2^(attempt-1))]
+const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * cap);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt with its own timeout; aborting the outer signal aborts the attempt too
+const attemptWithTimeout = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outer?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await request(controller.signal);
+  } catch (error) {
+    if (outer?.aborted) throw createAbortError();
+    if (timedOut) throw new RequestTimeoutError(`ไม่ได้รับผลตอบกลับภายใน ${Math.round(timeoutMs / 1000)} วินาที`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs 'request' until it succeeds, fails with a non-retryable error or runs out of attempts.
+ * control.onRetry is called before each backoff wait so the UI can show the retry state.
+ * Cancellation rejects with an error named 'AbortError' (see isAbortError).
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  control: ForecastRequestControl = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (control.signal?.aborted) throw createAbortError();
+    try {
+      return await attemptWithTimeout(request, policy.timeoutMs, control.signal);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= policy.maxAttempts || !isRetryable(error)) throw error;
+
+      const delayMs = backoffDelay(attempt, policy);
+      console.warn(`Forecast request failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delayMs} ms:`, error);
+      const state: RetryState = { attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, reason: describeError(error) };
+      control.onRetry?.(state);
+      await sleep(delayMs, control.signal);
+    }
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { forecastRunKey, uniqueRuns } from './runKey';
+
+const base = {
+  segment: 'RES',
+  segmentBy: ['accountclass' as const, 'paymenttype' as const],
+  filters: { ratecat: 'A', mru: undefined },
+  gapPolicy: 'zero-fill' as const,
+  engine: 'statistical' as const,
+  model: 'Offline',
+  method: 'auto' as const,
+  options: { horizon: 6, historyWindow: 36, minHistory: 6 },
+  outlierMethod: 'hampel' as const,
+  outlierDecisions: { '2024-01': null, '2023-12': 5 },
+};
+
+describe('forecastRunKey', () => {
+  it('ignores key order and unset filters', () => {
+    const reordered = {
+      ...base,
+      segmentBy: ['paymenttype' as const, 'accountclass' as const],
+      filters: { ratecat: 'A' },
+      outlierDecisions: { '2023-12': 5, '2024-01': null },
+    };
+    expect(forecastRunKey(reordered)).toBe(forecastRunKey(base));
+  });
+
+  it('distinguishes settings that change the forecast', () => {
+    expect(forecastRunKey({ ...base, options: { ...base.options, horizon: 12 } })).not.toBe(forecastRunKey(base));
+    expect(forecastRunKey({ ...base, method: 'linear-trend' })).not.toBe(forecastRunKey(base));
+  });
+
+  it('ignores the method for AI engines', () => {
+    const ai = { ...base, engine: 'gemini' as const, model: 'gemini-2.5-flash' };
+    expect(forecastRunKey({ ...ai, method: 'linear-trend' })).toBe(forecastRunKey(ai));
+  });
+});
+
+describe('uniqueRuns', () => {
+  it('keeps the last run per key', () => {
+    const runs = [{ ...base, id: 1 }, { ...base, segment: 'COM', id: 2 }, { ...base, id: 3 }];
+    expect(uniqueRuns(runs).map(run => run.id)).toEqual([3, 2]);
+  });
+});
@@ -0,0 +1,27 @@
+import { NewForecastRun } from '../types';
+
+// Identifies a run by what it was computed from. Saving the same dataset, segment and
+// settings again replaces the earlier run, so re-clicking a segment doesn't pile up copies.
+
+type RunInputs = Pick<NewForecastRun, 'segment' | 'segmentBy' | 'filters' | 'gapPolicy' | 'engine' | 'model' | 'method' | 'options' | 'outlierMethod' | 'outlierDecisions'>;
+
+const sortedEntries = (record: object) =>
+  Object.entries(record).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b));
+
+export const forecastRunKey = (run: RunInputs): string => JSON.stringify([
+  run.segment,
+  [...run.segmentBy].sort(),
+  sortedEntries(run.filters),
+  run.gapPolicy,
+  run.engine,
+  run.model,
+  // The method only steers the statistical engine
+  run.engine === 'statistical' ? run.method : null,
+  [run.options.horizon, run.options.historyWindow, run.options.minHistory],
+  run.outlierMethod,
+  sortedEntries(run.outlierDecisions),
+]);
+
+// One run per key within a batch, the last one winning
+export const uniqueRuns = <T extends RunInputs>(runs: T[]): T[] =>
+  Array.from(new Map(runs.map(run => [forecastRunKey(run), run])).values());
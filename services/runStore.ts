@@ -0,0 +1,24 @@
+import { RunStore } from '../types';
+import { createSupabaseRunStore } from './supabaseRunStore';
+import { browserRunStore } from './browserRunStore';
+
+// Picks where datasets and forecast runs are persisted: Supabase when SUPABASE_URL is set
+// (a hosted project or the local `supabase start` stack), otherwise this browser's IndexedDB.
+
+let store: RunStore | null = null;
+
+export const getRunStore = (): RunStore => {
+  if (!store) {
+    const url = process.env.SUPABASE_URL;
+    const anonKey = process.env.SUPABASE_ANON_KEY;
+    store = url && url.trim() !== '' && anonKey && anonKey.trim() !== ''
+      ? createSupabaseRunStore(url.trim(), anonKey.trim())
+      : browserRunStore;
+  }
+  return store;
+};
+
+export const RUN_STORE_LABELS: Record<RunStore['backend'], string> = {
+  'supabase': 'Supabase',
+  'browser': 'เบราว์เซอร์นี้ (IndexedDB)',
+};
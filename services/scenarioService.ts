@@ -0,0 +1,78 @@
+import { Scenario, ScenarioSeries, ForecastPoint, MonthlyData } from '../types';
+
+// What-if scenarios layered on top of the base forecast. The base forecast itself is never
+// modified; it is the reference every scenario is compared against.
+
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  { id: 'optimistic', name: 'Optimistic', growthPercent: 10, shocks: [], classOverrides: {}, visible: true },
+  { id: 'pessimistic', name: 'Pessimistic', growthPercent: -10, shocks: [], classOverrides: {}, visible: true },
+];
+
+export const SCENARIO_COLORS = ['#0ea5e9', '#f43f5e', '#a855f7', '#f59e0b', '#14b8a6'];
+
+export const createScenario = (name: string): Scenario => ({
+  id: `scenario-${Date.now().toString(36)}`,
+  name,
+  growthPercent: 0,
+  shocks: [],
+  classOverrides: {},
+  visible: true,
+});
+
+// Scenarios from a shared link replace local ones with the same id; every other local scenario is hidden
+export const mergeSharedScenarios = (local: Scenario[], shared: Scenario[]): Scenario[] => {
+  const sharedIds = new Set(shared.map(s => s.id));
+  return [
+    ...local.map(s => sharedIds.has(s.id) ? shared.find(x => x.id === s.id)! : { ...s, visible: false }),
+    ...shared.filter(s => !local.some(l => l.id === s.id)),
+  ];
+};
+
+const amountOn = (series: ForecastPoint[] | undefined, date: string): number => {
+  return series?.find(item => item.date === date)?.amount ?? 0;
+};
+
+/**
+ * Applies a scenario to the forecast of the selected segment ('ALL' = total portfolio).
+ * On a single segment its own override replaces the global growth. On the total, each
+ * overridden segment's forecast is re-weighted from the global growth to its override,
+ * which needs the per-segment forecasts from "Forecast All Segments".
+ * Shocks are applied last, after growth.
+ */
+export const applyScenario = (
+  base: ForecastPoint[],
+  scenario: Scenario,
+  segment: string,
+  classForecasts: Record<string, ForecastPoint[]> = {}
+): ScenarioSeries => {
+  const overrides = Object.entries(scenario.classOverrides);
+  const growth = segment !== 'ALL' && scenario.classOverrides[segment] !== undefined
+    ? scenario.classOverrides[segment]
+    : scenario.growthPercent;
+  const classOverridesApplied = segment !== 'ALL' || overrides.every(([cls]) => classForecasts[cls] !== undefined);
+
+  const forecast: MonthlyData[] = base.map(point => {
+    let amount = point.amount * (1 + growth / 100);
+
+    if (segment === 'ALL') {
+      overrides.forEach(([cls, percent]) => {
+        amount += amountOn(classForecasts[cls], point.date) * ((percent - scenario.growthPercent) / 100);
+      });
+    }
+
+    scenario.shocks
+      .filter(shock => shock.date === point.date)
+      .forEach(shock => {
+        amount = shock.kind === 'percent' ? amount * (1 + shock.value / 100) : amount + shock.value;
+      });
+
+    return { date: point.date, amount };
+  });
+
+  return {
+    scenario,
+    forecast,
+    total: forecast.reduce((acc, item) => acc + item.amount, 0),
+    classOverridesApplied,
+  };
+};
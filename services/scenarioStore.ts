@@ -0,0 +1,26 @@
+import { Scenario } from '../types';
+import { DEFAULT_SCENARIOS } from './scenarioService';
+
+// Keeps the named what-if scenarios in localStorage so they survive reloads and new uploads.
+
+const STORAGE_KEY = 'ai-ar-forecaster:scenarios';
+
+export const loadScenarios = (): Scenario[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const scenarios: Scenario[] = raw ? JSON.parse(raw) : [];
+    return scenarios.length > 0 ? scenarios : DEFAULT_SCENARIOS;
+  } catch (error) {
+    console.error("Scenario Store Read Error:", error);
+    return DEFAULT_SCENARIOS;
+  }
+};
+
+export const saveScenarios = (scenarios: Scenario[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (error) {
+    // Storage full or disabled: scenarios still apply for this session
+    console.error("Scenario Store Write Error:", error);
+  }
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { datasetFromRun, isSameGrouping, regroupDataset } from './segmentService';
+import { MonthlyData } from '../types';
+
+describe('datasetFromRun', () => {
+  const history: MonthlyData[] = [
+    { date: '2024-01', amount: 100 },
+    { date: '2024-02', amount: 0, filled: true },
+    { date: '2024-03', amount: 300 },
+  ];
+
+  it('rebuilds the segment series of the run', () => {
+    const dataset = datasetFromRun({
+      segment: 'RES × Cash',
+      segmentBy: ['accountclass', 'paymenttype'],
+      filters: { ratecat: 'A' },
+      gapPolicy: 'zero-fill',
+      history,
+    });
+
+    expect(dataset.availableClasses).toEqual(['RES × Cash']);
+    expect(dataset.byClass['RES × Cash']).toEqual(history);
+    expect(dataset.totalByDate).toEqual(history);
+    expect(dataset.dimensionValues).toEqual({ ratecat: ['A'], accountclass: ['RES'], paymenttype: ['Cash'] });
+  });
+
+  it('keeps the total for a Total Portfolio run', () => {
+    const dataset = datasetFromRun({ segment: 'ALL', segmentBy: ['accountclass'], filters: {}, gapPolicy: 'zero-fill', history });
+    expect(dataset.totalByDate).toEqual(history);
+    expect(dataset.quality.totalRows).toBe(0);
+  });
+});
+
+describe('isSameGrouping', () => {
+  const dataset = regroupDataset(
+    datasetFromRun({ segment: 'RES × Cash', segmentBy: ['accountclass', 'paymenttype'], filters: {}, gapPolicy: 'zero-fill', history: [{ date: '2024-01', amount: 1 }] }),
+    ['accountclass'],
+    { paymenttype: 'Cash' },
+    'zero-fill'
+  );
+
+  it('matches the grouping the dataset was built with', () => {
+    expect(isSameGrouping(dataset, ['accountclass'], { paymenttype: 'Cash', ratecat: undefined }, 'zero-fill')).toBe(true);
+    // Dimensions the file lacks are ignored by regroupDataset too
+    expect(isSameGrouping(dataset, ['accountclass', 'mru'], { paymenttype: 'Cash' }, 'zero-fill')).toBe(true);
+  });
+
+  it('detects a different key, filter or gap policy', () => {
+    expect(isSameGrouping(dataset, ['paymenttype'], { paymenttype: 'Cash' }, 'zero-fill')).toBe(false);
+    expect(isSameGrouping(dataset, ['accountclass'], {}, 'zero-fill')).toBe(false);
+    expect(isSameGrouping(dataset, ['accountclass'], { paymenttype: 'Cash' }, 'interpolate')).toBe(false);
+  });
+});
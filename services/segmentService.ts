@@ -0,0 +1,132 @@
+import { MonthlyData, ParsedDataSet, SegmentDimension, DimensionFilters, FactRow, GapPolicy, ForecastRun } from '../types';
+import { fillMonthlyGaps, DEFAULT_GAP_POLICY } from './gapFillService';
+import { createDataQualityTracker } from './dataQualityService';
+
+// Regroups the parsed fact table by any dimension (or combination of dimensions),
+// optionally drilled down to specific dimension values. Every series comes out on a
+// continuous monthly calendar according to the gap policy.
+
+export const DIMENSION_LABELS: Record<SegmentDimension, string> = {
+  accountclass: 'Account Class',
+  paymenttype: 'Payment Type',
+  docType: 'Document Type',
+  ratecat: 'Rate Category',
+  trsg: 'TRSG',
+  mru: 'MRU',
+  bacode: 'BA Code',
+};
+
+export const SEGMENT_SEPARATOR = ' × ';
+export const UNCLASSIFIED_SEGMENT = 'Unclassified';
+
+const sortFn = (a: MonthlyData, b: MonthlyData) => a.date.localeCompare(b.date);
+
+const toSeries = (map: Record<string, number>): MonthlyData[] => {
+  return Object.entries(map)
+    .map(([date, amount]) => ({ date, amount }))
+    .sort(sortFn);
+};
+
+export const segmentKeyOf = (fact: FactRow, segmentBy: SegmentDimension[]): string => {
+  if (segmentBy.length === 0) return UNCLASSIFIED_SEGMENT;
+  return segmentBy.map(dim => fact.dims[dim] ?? 'Unknown').join(SEGMENT_SEPARATOR);
+};
+
+export const matchesFilters = (fact: FactRow, filters: DimensionFilters): boolean => {
+  return (Object.entries(filters) as [SegmentDimension, string | undefined][])
+    .every(([dim, value]) => value === undefined || fact.dims[dim] === value);
+};
+
+export const regroupDataset = (
+  dataset: Pick<ParsedDataSet, 'facts' | 'dimensions' | 'dimensionValues' | 'quality'>,
+  segmentBy: SegmentDimension[],
+  filters: DimensionFilters = {},
+  gapPolicy: GapPolicy = DEFAULT_GAP_POLICY
+): ParsedDataSet => {
+  // Ignore dimensions the file does not have
+  const activeKey = segmentBy.filter(dim => dataset.dimensions.includes(dim));
+
+  const totalMap: Record<string, number> = {};
+  const segmentMap: Record<string, Record<string, number>> = {};
+
+  dataset.facts.forEach(fact => {
+    if (!matchesFilters(fact, filters)) return;
+
+    totalMap[fact.date] = (totalMap[fact.date] ?? 0) + fact.amount;
+
+    const segment = segmentKeyOf(fact, activeKey);
+    if (!segmentMap[segment]) segmentMap[segment] = {};
+    segmentMap[segment][fact.date] = (segmentMap[segment][fact.date] ?? 0) + fact.amount;
+  });
+
+  // Segments run up to the portfolio's last month so their forecasts start together
+  const totalByDate = fillMonthlyGaps(toSeries(totalMap), gapPolicy);
+  const lastDate = totalByDate.length > 0 ? totalByDate[totalByDate.length - 1].date : undefined;
+
+  const byClass: Record<string, MonthlyData[]> = {};
+  Object.keys(segmentMap).forEach(segment => {
+    byClass[segment] = fillMonthlyGaps(toSeries(segmentMap[segment]), gapPolicy, lastDate);
+  });
+
+  return {
+    totalByDate,
+    byClass,
+    availableClasses: Object.keys(byClass).sort(),
+    segmentBy: activeKey,
+    filters,
+    gapPolicy,
+    dimensions: dataset.dimensions,
+    dimensionValues: dataset.dimensionValues,
+    facts: dataset.facts,
+    quality: dataset.quality,
+  };
+};
+
+const filterEntries = (filters: DimensionFilters) =>
+  Object.entries(filters).filter(([, value]) => value).sort(([a], [b]) => a.localeCompare(b));
+
+// Whether regroupDataset with these arguments would cut the dataset the way it is already cut
+export const isSameGrouping = (
+  dataset: Pick<ParsedDataSet, 'dimensions' | 'segmentBy' | 'filters' | 'gapPolicy'>,
+  segmentBy: SegmentDimension[],
+  filters: DimensionFilters = {},
+  gapPolicy: GapPolicy = DEFAULT_GAP_POLICY
+): boolean => {
+  const activeKey = segmentBy.filter(dim => dataset.dimensions.includes(dim));
+  return activeKey.join('|') === dataset.segmentBy.join('|') &&
+    JSON.stringify(filterEntries(filters)) === JSON.stringify(filterEntries(dataset.filters)) &&
+    gapPolicy === dataset.gapPolicy;
+};
+
+/**
+ * Stand-in dataset for a saved run whose upload was not stored: the run's own series as facts,
+ * tagged with the segment and filter values it was cut by, so regrouping and gap policies still work.
+ */
+export const datasetFromRun = (run: Pick<ForecastRun, 'segment' | 'segmentBy' | 'filters' | 'gapPolicy' | 'history'>): ParsedDataSet => {
+  const dims: Partial<Record<SegmentDimension, string>> = { ...run.filters };
+  if (run.segment !== 'ALL' && run.segmentBy.length > 0) {
+    const values = run.segment.split(SEGMENT_SEPARATOR);
+    run.segmentBy.forEach((dim, i) => { dims[dim] = values[i]; });
+  }
+  const dimensions = (Object.keys(dims) as SegmentDimension[]).filter(dim => dims[dim] !== undefined);
+  const dimensionValues: Partial<Record<SegmentDimension, string[]>> = {};
+  dimensions.forEach(dim => { dimensionValues[dim] = [dims[dim]!]; });
+
+  const facts: FactRow[] = run.history
+    .filter(item => !item.filled && !item.missing)
+    .map(item => ({ date: item.date, amount: item.amount, dims }));
+
+  return regroupDataset({ facts, dimensions, dimensionValues, quality: createDataQualityTracker().build([]) }, run.segmentBy, run.filters, run.gapPolicy);
+};
+
+// Human-readable description of the active key, e.g. "Account Class × Rate Category"
+export const describeSegmentKey = (segmentBy: SegmentDimension[]): string => {
+  return segmentBy.length > 0 ? segmentBy.map(dim => DIMENSION_LABELS[dim]).join(SEGMENT_SEPARATOR) : 'Segment';
+};
+
+export const describeFilters = (filters: DimensionFilters): string => {
+  return (Object.entries(filters) as [SegmentDimension, string | undefined][])
+    .filter(([, value]) => value !== undefined)
+    .map(([dim, value]) => `${DIMENSION_LABELS[dim]} = ${value}`)
+    .join(', ');
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { forecastSeries, isMethodApplicable, buildIntervals, getStatisticalForecast } from './statisticalService';
+import { MonthlyData } from '../types';
+
+const PATTERN = [-30, -20, -10, 0, 10, 20, 30, 20, 10, 0, -10, 60];
+const level = (t: number) => 500 + 4 * t;
+// Noise-free trend plus a fixed monthly pattern, added or scaled
+const additive = (t: number) => level(t) + PATTERN[t % 12];
+const multiplicative = (t: number) => level(t) * (1 + PATTERN[t % 12] / 200);
+
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+const monthly = (values: number[]): MonthlyData[] =>
+  values.map((amount, t) => ({ date: `${2021 + Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}`, amount }));
+
+describe('forecastSeries', () => {
+  it('continues an additive seasonal series exactly with Holt-Winters', () => {
+    const { method, forecast } = forecastSeries(range(0, 36).map(additive), 12, 'holt-winters-additive');
+    expect(method).toBe('holt-winters-additive');
+    forecast.forEach((value, i) => expect(value).toBeCloseTo(additive(36 + i), 6));
+  });
+
+  it('tracks a multiplicative seasonal series with multiplicative Holt-Winters', () => {
+    const { forecast } = forecastSeries(range(0, 36).map(multiplicative), 12, 'holt-winters-multiplicative');
+    forecast.forEach((value, i) => expect(Math.abs(value - multiplicative(36 + i))).toBeLessThan(1));
+  });
+
+  it.each([
+    ['additive', additive, 'holt-winters-additive'],
+    ['multiplicative', multiplicative, 'holt-winters-multiplicative'],
+  ] as const)('auto picks the matching Holt-Winters model for an %s series', (_, shape, expected) => {
+    expect(forecastSeries(range(0, 36).map(shape), 12, 'auto').method).toBe(expected);
+  });
+
+  it('auto picks the linear trend for a straight line', () => {
+    const { method, forecast } = forecastSeries(range(0, 18).map(level), 3, 'auto');
+    expect(method).toBe('linear-trend');
+    forecast.forEach((value, i) => expect(value).toBeCloseTo(level(18 + i), 6));
+  });
+
+  it('repeats the last season with seasonal naive', () => {
+    const y = range(0, 24).map(additive);
+    expect(forecastSeries(y, 14, 'seasonal-naive').forecast).toEqual([...y.slice(12), ...y.slice(12, 14)]);
+  });
+
+  it('falls back to the weighted moving average when the method cannot be fitted', () => {
+    const { method, forecast } = forecastSeries([10, 20, 30], 2, 'holt-winters-additive');
+    expect(method).toBe('weighted-moving-average');
+    // Weights 1, 2, 3 on the last three months
+    expect(forecast).toEqual([(10 + 40 + 90) / 6, (10 + 40 + 90) / 6]);
+  });
+});
+
+describe('isMethodApplicable', () => {
+  it('requires two seasons for Holt-Winters and positive values for the multiplicative form', () => {
+    const y = range(0, 24).map(additive);
+    expect(isMethodApplicable('holt-winters-additive', y.slice(1))).toBe(false);
+    expect(isMethodApplicable('holt-winters-additive', y)).toBe(true);
+    expect(isMethodApplicable('holt-winters-multiplicative', y)).toBe(true);
+    expect(isMethodApplicable('holt-winters-multiplicative', [0, ...y.slice(1)])).toBe(false);
+    expect(isMethodApplicable('seasonal-naive', y.slice(0, 11))).toBe(false);
+  });
+});
+
+describe('buildIntervals', () => {
+  it('widens with the square root of the steps ahead', () => {
+    const [first, fourth] = [0, 3].map(i => buildIntervals([100, 100, 100, 100], [3, -4, 0, 5])[i]);
+    const sigma = Math.sqrt((9 + 16 + 0 + 25) / 4);
+    expect(first.upper95! - 100).toBeCloseTo(1.96 * sigma, 6);
+    expect(fourth.upper95! - 100).toBeCloseTo(1.96 * sigma * 2, 6);
+    expect(100 - first.lower80!).toBeCloseTo(first.upper80! - 100, 6);
+  });
+
+  it('collapses to the forecast without residuals', () => {
+    expect(buildIntervals([5], [])).toEqual([{ lower80: 5, upper80: 5, lower95: 5, upper95: 5 }]);
+  });
+});
+
+describe('getStatisticalForecast', () => {
+  it('dates the forecast after the last month of history', async () => {
+    const result = await getStatisticalForecast(monthly(range(0, 36).map(additive)), 'RES', 'auto', { horizon: 3 });
+    expect(result.forecast.map(point => point.date)).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(result.reasoning).toContain('Holt-Winters (Additive)');
+  });
+
+  it('rejects history shorter than the minimum', async () => {
+    await expect(getStatisticalForecast(monthly([1, 2, 3]), 'RES', 'auto', { minHistory: 6 })).rejects.toThrow('ข้อมูลไม่เพียงพอ');
+  });
+});
@@ -0,0 +1,305 @@
+import { MonthlyData, ForecastResult, ForecastMethod, ForecastPoint, ForecastOptions } from '../types';
+import { addMonths } from './dateUtils';
+import { countFilledMonths } from './gapFillService';
+import { DEFAULT_FORECAST_OPTIONS, normalizeForecastOptions } from './forecastOptions';
+
+// Deterministic, offline forecasting engine.
+// Same input series always yields the same ForecastResult, no API key required.
+
+const SEASON_LENGTH = 12;
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  'auto': 'Auto (Best Fit)',
+  'seasonal-naive': 'Seasonal Naive',
+  'holt-winters-additive': 'Holt-Winters (Additive)',
+  'holt-winters-multiplicative': 'Holt-Winters (Multiplicative)',
+  'linear-trend': 'Linear Trend',
+  'weighted-moving-average': 'Weighted Moving Average',
+};
+
+export interface FittedModel {
+  method: Exclude<ForecastMethod, 'auto'>;
+  forecast: number[];
+  residuals: number[]; // One-step-ahead in-sample errors (actual - fitted)
+}
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+// --- Individual Methods ---
+
+const seasonalNaive = (y: number[], horizon: number): FittedModel => {
+  const n = y.length;
+  const forecast = Array.from({ length: horizon }, (_, i) => y[n - SEASON_LENGTH + (i % SEASON_LENGTH)]);
+  const residuals: number[] = [];
+  for (let t = SEASON_LENGTH; t < n; t++) residuals.push(y[t] - y[t - SEASON_LENGTH]);
+  return { method: 'seasonal-naive', forecast, residuals };
+};
+
+const linearTrend = (y: number[], horizon: number): FittedModel => {
+  const n = y.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(y);
+  let num = 0;
+  let den = 0;
+  for (let t = 0; t < n; t++) {
+    num += (t - xMean) * (y[t] - yMean);
+    den += (t - xMean) ** 2;
+  }
+  const slope = den === 0 ? 0 : num / den;
+  const intercept = yMean - slope * xMean;
+
+  const forecast = Array.from({ length: horizon }, (_, i) => intercept + slope * (n + i));
+  const residuals = y.map((v, t) => v - (intercept + slope * t));
+  return { method: 'linear-trend', forecast, residuals };
+};
+
+const weightedMovingAverage = (y: number[], horizon: number, window: number = 6): FittedModel => {
+  const k = Math.min(window, y.length);
+  // Linear weights 1..k, most recent month gets the highest weight
+  const wma = (slice: number[]) => {
+    const totalWeight = (slice.length * (slice.length + 1)) / 2;
+    return slice.reduce((acc, v, i) => acc + v * (i + 1), 0) / totalWeight;
+  };
+
+  const level = wma(y.slice(-k));
+  const residuals: number[] = [];
+  for (let t = k; t < y.length; t++) residuals.push(y[t] - wma(y.slice(t - k, t)));
+  return { method: 'weighted-moving-average', forecast: Array(horizon).fill(level), residuals };
+};
+
+const runHoltWinters = (
+  y: number[],
+  horizon: number,
+  multiplicative: boolean,
+  alpha: number,
+  beta: number,
+  gamma: number
+): { forecast: number[]; residuals: number[]; sse: number } => {
+  const m = SEASON_LENGTH;
+  const n = y.length;
+
+  // Initialise from the first two seasons. The first season's mean is the level at its
+  // midpoint, so seasonal indices are taken against that line and the level is carried to its end.
+  const firstSeason = mean(y.slice(0, m));
+  const secondSeason = mean(y.slice(m, 2 * m));
+  let trend = (secondSeason - firstSeason) / m;
+  const line = (t: number) => firstSeason + (t - (m - 1) / 2) * trend;
+  let level = line(m - 1);
+  const season = y.slice(0, m).map((v, t) => multiplicative ? v / line(t) : v - line(t));
+
+  const residuals: number[] = [];
+  let sse = 0;
+
+  for (let t = m; t < n; t++) {
+    const s = season[t % m];
+    const fitted = multiplicative ? (level + trend) * s : level + trend + s;
+    const err = y[t] - fitted;
+    residuals.push(err);
+    sse += err * err;
+
+    const prevLevel = level;
+    level = multiplicative
+      ? alpha * (y[t] / s) + (1 - alpha) * (level + trend)
+      : alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season[t % m] = multiplicative
+      ? gamma * (y[t] / level) + (1 - gamma) * s
+      : gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const s = season[(n + i) % m];
+    const base = level + (i + 1) * trend;
+    return multiplicative ? base * s : base + s;
+  });
+
+  return { forecast, residuals, sse };
+};
+
+const holtWinters = (y: number[], horizon: number, multiplicative: boolean): FittedModel => {
+  // Coarse grid search on smoothing parameters (deterministic, cheap for <= 36 points)
+  const grid = [0.1, 0.3, 0.5, 0.7, 0.9];
+  let best: ReturnType<typeof runHoltWinters> | null = null;
+
+  for (const alpha of grid) {
+    for (const beta of grid) {
+      for (const gamma of grid) {
+        const run = runHoltWinters(y, horizon, multiplicative, alpha, beta, gamma);
+        if (!isFinite(run.sse)) continue;
+        if (!best || run.sse < best.sse) best = run;
+      }
+    }
+  }
+
+  const result = best ?? runHoltWinters(y, horizon, multiplicative, 0.5, 0.1, 0.1);
+  return {
+    method: multiplicative ? 'holt-winters-multiplicative' : 'holt-winters-additive',
+    forecast: result.forecast,
+    residuals: result.residuals,
+  };
+};
+
+// --- Method Selection ---
+
+// Whether a method has enough (and suitable) data to be fitted
+export const isMethodApplicable = (method: Exclude<ForecastMethod, 'auto'>, y: number[]): boolean => {
+  switch (method) {
+    case 'seasonal-naive':
+      return y.length >= SEASON_LENGTH;
+    case 'holt-winters-additive':
+      return y.length >= 2 * SEASON_LENGTH;
+    case 'holt-winters-multiplicative':
+      return y.length >= 2 * SEASON_LENGTH && y.every(v => v > 0);
+    case 'linear-trend':
+      return y.length >= 2;
+    case 'weighted-moving-average':
+      return y.length >= 1;
+  }
+};
+
+const CANDIDATE_METHODS: Exclude<ForecastMethod, 'auto'>[] = [
+  'holt-winters-additive',
+  'holt-winters-multiplicative',
+  'seasonal-naive',
+  'linear-trend',
+  'weighted-moving-average',
+];
+
+const fitMethod = (method: Exclude<ForecastMethod, 'auto'>, y: number[], horizon: number): FittedModel => {
+  switch (method) {
+    case 'seasonal-naive':
+      return seasonalNaive(y, horizon);
+    case 'holt-winters-additive':
+      return holtWinters(y, horizon, false);
+    case 'holt-winters-multiplicative':
+      return holtWinters(y, horizon, true);
+    case 'linear-trend':
+      return linearTrend(y, horizon);
+    case 'weighted-moving-average':
+      return weightedMovingAverage(y, horizon);
+  }
+};
+
+// Pick the method with the lowest MAE on a hold-out of the most recent months
+const selectBestMethod = (y: number[], horizon: number): { method: Exclude<ForecastMethod, 'auto'>; holdoutMae: number | null } => {
+  const holdout = Math.min(horizon, Math.max(1, Math.floor(y.length / 4)));
+  const train = y.slice(0, -holdout);
+  const test = y.slice(-holdout);
+
+  let bestMethod: Exclude<ForecastMethod, 'auto'> = 'weighted-moving-average';
+  let bestMae: number | null = null;
+
+  for (const method of CANDIDATE_METHODS) {
+    if (!isMethodApplicable(method, train)) continue;
+    const { forecast } = fitMethod(method, train, holdout);
+    const mae = mean(test.map((v, i) => Math.abs(v - forecast[i])));
+    if (isFinite(mae) && (bestMae === null || mae < bestMae)) {
+      bestMae = mae;
+      bestMethod = method;
+    }
+  }
+
+  return { method: bestMethod, holdoutMae: bestMae };
+};
+
+/**
+ * Core numeric forecast. Falls back to weighted moving average when the requested
+ * method cannot be fitted on the available history.
+ */
+export const forecastSeries = (y: number[], horizon: number = DEFAULT_FORECAST_OPTIONS.horizon, method: ForecastMethod = 'auto'): FittedModel => {
+  const resolved = method === 'auto' ? selectBestMethod(y, horizon).method : method;
+  const applicable = isMethodApplicable(resolved, y) ? resolved : 'weighted-moving-average';
+  return fitMethod(applicable, y, horizon);
+};
+
+// --- Prediction Intervals ---
+
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+/**
+ * Normal-approximation intervals from the in-sample one-step residuals.
+ * Uncertainty widens with the square root of the steps ahead.
+ */
+export const buildIntervals = (forecast: number[], residuals: number[]): Pick<ForecastPoint, 'lower80' | 'upper80' | 'lower95' | 'upper95'>[] => {
+  const sigma = residuals.length > 0
+    ? Math.sqrt(residuals.reduce((acc, r) => acc + r * r, 0) / residuals.length)
+    : 0;
+
+  return forecast.map((value, i) => {
+    const spread = sigma * Math.sqrt(i + 1);
+    return {
+      lower80: value - Z_80 * spread,
+      upper80: value + Z_80 * spread,
+      lower95: value - Z_95 * spread,
+      upper95: value + Z_95 * spread,
+    };
+  });
+};
+
+// --- Narrative (mirrors the trend/reasoning fields of the AI forecast) ---
+
+const describeTrend = (history: number[], forecast: number[], method: Exclude<ForecastMethod, 'auto'>): string => {
+  const recent = mean(history.slice(-SEASON_LENGTH));
+  const projected = mean(forecast);
+  const change = recent === 0 ? 0 : (projected - recent) / Math.abs(recent);
+
+  const direction = change > 0.02 ? 'Uptrend' : change < -0.02 ? 'Downtrend' : 'Stable';
+  const seasonal = method.startsWith('holt-winters') || method === 'seasonal-naive';
+  if (direction === 'Stable') return seasonal ? 'Stable with Seasonality' : 'Stable';
+  return seasonal ? `Seasonal ${direction}` : direction;
+};
+
+const formatNumber = (value: number) => new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
+
+export const getStatisticalForecast = async (
+  history: MonthlyData[],
+  segmentName: string = 'Total Portfolio',
+  method: ForecastMethod = 'auto',
+  options: Partial<ForecastOptions> = {}
+): Promise<ForecastResult> => {
+  const { horizon, historyWindow, minHistory } = normalizeForecastOptions(options);
+
+  if (!history || history.length === 0) {
+    throw new Error("ไม่พบข้อมูลสำหรับการพยากรณ์");
+  }
+
+  if (history.length < minHistory) {
+    throw new Error(`ข้อมูลไม่เพียงพอ: มีข้อมูลเพียง ${history.length} เดือน (ต้องการอย่างน้อย ${minHistory} เดือนเพื่อการพยากรณ์ที่แม่นยำ)`);
+  }
+
+  const recentHistory = history.slice(-historyWindow);
+  const y = recentHistory.map(item => item.amount);
+  const lastDate = recentHistory[recentHistory.length - 1].date;
+
+  const selection = method === 'auto' ? selectBestMethod(y, horizon) : null;
+  const model = forecastSeries(y, horizon, selection ? selection.method : method);
+
+  const intervals = buildIntervals(model.forecast, model.residuals);
+  const forecast: ForecastPoint[] = model.forecast.map((amount, i) => ({
+    date: addMonths(lastDate, i + 1),
+    amount,
+    ...intervals[i],
+  }));
+
+  const reasoningParts = [
+    `Segment "${segmentName}" was forecast with ${FORECAST_METHOD_LABELS[model.method]} on ${y.length} months of history ending ${lastDate}.`,
+  ];
+  if (selection && selection.holdoutMae !== null) {
+    reasoningParts.push(`The method was selected automatically as it had the lowest mean absolute error (${formatNumber(selection.holdoutMae)}) when re-forecasting the most recent months.`);
+  }
+  if (model.method !== method && method !== 'auto') {
+    reasoningParts.push(`${FORECAST_METHOD_LABELS[method]} could not be applied to this history, so a weighted moving average was used instead.`);
+  }
+  const filledMonths = countFilledMonths(recentHistory);
+  if (filledMonths > 0) {
+    reasoningParts.push(`${filledMonths} of those months had no source data and were filled by the gap policy.`);
+  }
+  reasoningParts.push(`Projected ${horizon}-month total: ${formatNumber(model.forecast.reduce((acc, v) => acc + v, 0))}.`);
+
+  return {
+    forecast,
+    reasoning: reasoningParts.join('\n'),
+    trend: describeTrend(y, model.forecast, model.method),
+  };
+};
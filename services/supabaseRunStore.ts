@@ -0,0 +1,187 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { RunStore, StoredDataset, ForecastRun, ForecastRunSummary, SegmentForecastRun } from '../types';
+import { forecastRunKey, uniqueRuns } from './runKey';
+
+// RunStore backed by Supabase (hosted, or the local stack from `supabase start`).
+// Table layout: supabase/migrations/20261019000000_forecast_runs.sql
+
+interface DatasetRow {
+  id: string;
+  file_name: string;
+  created_at: string;
+  dimensions: StoredDataset['dimensions'];
+  dimension_values: StoredDataset['dimensionValues'];
+  facts: StoredDataset['facts'];
+  quality: StoredDataset['quality'];
+}
+
+interface RunRow {
+  id: string;
+  dataset_id: string | null;
+  created_at: string;
+  file_name: string;
+  segment: string;
+  segment_name: string;
+  segment_by: ForecastRun['segmentBy'];
+  filters: ForecastRun['filters'];
+  gap_policy: ForecastRun['gapPolicy'];
+  engine: ForecastRun['engine'];
+  model: string;
+  method: ForecastRun['method'];
+  options: ForecastRun['options'];
+  outlier_method: ForecastRun['outlierMethod'];
+  outlier_decisions: ForecastRun['outlierDecisions'];
+  history: ForecastRun['history'];
+  result: ForecastRun['result'];
+  run_key: string; // See services/runKey.ts; unique per dataset
+  horizon: number; // Denormalised so the run list doesn't need the JSON columns
+  total: number;
+  forecast_start: string | null; // First and last forecast month, denormalised for listSegmentRuns
+  forecast_end: string | null;
+}
+
+const SUMMARY_COLUMNS = 'id, dataset_id, created_at, file_name, segment, engine, model, method, horizon, total';
+const RUN_COLUMNS_WITHOUT_HISTORY = 'id, dataset_id, created_at, file_name, segment, segment_name, segment_by, filters, gap_policy, engine, model, method, options, outlier_method, outlier_decisions, result, horizon, total';
+type ListedRunRow = Omit<RunRow, 'history' | 'run_key' | 'forecast_start' | 'forecast_end'>;
+
+const fail = (action: string, message: string): never => {
+  throw new Error(`Supabase: ไม่สามารถ${action}ได้ (${message})`);
+};
+
+const fromRunRow = (row: ListedRunRow): SegmentForecastRun => ({
+  id: row.id,
+  datasetId: row.dataset_id,
+  createdAt: row.created_at,
+  fileName: row.file_name,
+  segment: row.segment,
+  segmentName: row.segment_name,
+  segmentBy: row.segment_by,
+  filters: row.filters,
+  gapPolicy: row.gap_policy,
+  engine: row.engine,
+  model: row.model,
+  method: row.method,
+  options: row.options,
+  outlierMethod: row.outlier_method,
+  outlierDecisions: row.outlier_decisions,
+  result: row.result,
+});
+
+export const createSupabaseRunStore = (url: string, anonKey: string): RunStore => {
+  const client: SupabaseClient = createClient(url, anonKey, { auth: { persistSession: false } });
+
+  return {
+    backend: 'supabase',
+
+    saveDataset: async (dataset) => {
+      const { data, error } = await client
+        .from('datasets')
+        .insert({
+          file_name: dataset.fileName,
+          dimensions: dataset.dimensions,
+          dimension_values: dataset.dimensionValues,
+          facts: dataset.facts,
+          quality: dataset.quality,
+        })
+        .select('id')
+        .single();
+      if (error) fail('บันทึกชุดข้อมูล', error.message);
+      return (data as { id: string }).id;
+    },
+
+    loadDataset: async (id) => {
+      const { data, error } = await client.from('datasets').select('*').eq('id', id).maybeSingle();
+      if (error) fail('โหลดชุดข้อมูล', error.message);
+      if (!data) return null;
+      const row = data as DatasetRow;
+      return {
+        id: row.id,
+        fileName: row.file_name,
+        createdAt: row.created_at,
+        dimensions: row.dimensions,
+        dimensionValues: row.dimension_values,
+        facts: row.facts,
+        quality: row.quality,
+      };
+    },
+
+    saveRuns: async (runs) => {
+      if (runs.length === 0) return;
+      const createdAt = new Date().toISOString();
+      const rows: Omit<RunRow, 'id'>[] = uniqueRuns(runs).map(run => ({
+        dataset_id: run.datasetId,
+        created_at: createdAt,
+        file_name: run.fileName,
+        segment: run.segment,
+        segment_name: run.segmentName,
+        segment_by: run.segmentBy,
+        filters: run.filters,
+        gap_policy: run.gapPolicy,
+        engine: run.engine,
+        model: run.model,
+        method: run.method,
+        options: run.options,
+        outlier_method: run.outlierMethod,
+        outlier_decisions: run.outlierDecisions,
+        history: run.history,
+        result: run.result,
+        run_key: forecastRunKey(run),
+        horizon: run.result.forecast.length,
+        total: run.result.forecast.reduce((acc, item) => acc + item.amount, 0),
+        forecast_start: run.result.forecast[0]?.date ?? null,
+        forecast_end: run.result.forecast[run.result.forecast.length - 1]?.date ?? null,
+      }));
+      // Re-running the same inputs on the same dataset replaces the earlier run
+      const { error } = await client.from('forecast_runs').upsert(rows, { onConflict: 'dataset_id,run_key' });
+      if (error) fail('บันทึกผลพยากรณ์', error.message);
+    },
+
+    listRuns: async (limit) => {
+      const { data, error } = await client
+        .from('forecast_runs')
+        .select(SUMMARY_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) fail('โหลดประวัติการพยากรณ์', error.message);
+      return ((data ?? []) as Pick<RunRow, 'id' | 'dataset_id' | 'created_at' | 'file_name' | 'segment' | 'engine' | 'model' | 'method' | 'horizon' | 'total'>[])
+        .map((row): ForecastRunSummary => ({
+          id: row.id,
+          datasetId: row.dataset_id,
+          createdAt: row.created_at,
+          fileName: row.file_name,
+          segment: row.segment,
+          engine: row.engine,
+          model: row.model,
+          method: row.method,
+          horizon: row.horizon,
+          total: Number(row.total), // numeric columns arrive as strings from PostgREST when large
+        }));
+    },
+
+    loadRun: async (id) => {
+      const { data, error } = await client.from('forecast_runs').select('*').eq('id', id).maybeSingle();
+      if (error) fail('โหลดผลพยากรณ์', error.message);
+      if (!data) return null;
+      const row = data as RunRow;
+      return { ...fromRunRow(row), history: row.history };
+    },
+
+    listSegmentRuns: async (segment, months, limit) => {
+      const { data, error } = await client
+        .from('forecast_runs')
+        .select(RUN_COLUMNS_WITHOUT_HISTORY)
+        .eq('segment', segment)
+        .lte('forecast_start', months.to)
+        .gte('forecast_end', months.from)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) fail('โหลดผลพยากรณ์ย้อนหลัง', error.message);
+      return ((data ?? []) as ListedRunRow[]).map(fromRunRow);
+    },
+
+    deleteRun: async (id) => {
+      const { error } = await client.from('forecast_runs').delete().eq('id', id);
+      if (error) fail('ลบผลพยากรณ์', error.message);
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parseUrlState, toSearch } from './urlState';
+import { DashboardUrlState, Scenario } from '../types';
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('parseUrlState', () => {
+  const scenario: Scenario = { id: 's1', name: 'Upside', growthPercent: 5, shocks: [], classOverrides: {}, visible: true };
+
+  it('round-trips the dashboard state', () => {
+    const state: DashboardUrlState = {
+      dataset: 'd1',
+      segmentBy: ['accountclass', 'paymenttype'],
+      filters: { ratecat: 'A' },
+      gapPolicy: 'interpolate',
+      segment: 'RES × Cash',
+      horizon: 12,
+      engine: 'statistical',
+      method: 'holt-winters-additive',
+      scenarios: [scenario],
+    };
+    expect(parseUrlState(toSearch(state))).toEqual(state);
+  });
+
+  it('drops scenarios that are not objects or lack required fields', () => {
+    const search = `?scenario=${encode([null, 5, 'x', { id: 's2', name: 'No shocks', growthPercent: 1 }, scenario])}`;
+    expect(parseUrlState(search).scenarios).toEqual([scenario]);
+  });
+
+  it.each<[string, unknown]>([
+    ['a null shock', { shocks: [null] }],
+    ['a shock without a date', { shocks: [{ kind: 'percent', value: 5 }] }],
+    ['a shock of unknown kind', { shocks: [{ date: '2024-01', kind: 'double', value: 5 }] }],
+    ['a shock with a non-numeric value', { shocks: [{ date: '2024-01', kind: 'amount', value: '5' }] }],
+    ['a non-numeric class override', { classOverrides: { RES: 'abc' } }],
+    ['an array of class overrides', { classOverrides: [1] }],
+    ['a non-finite growth', { growthPercent: null }],
+  ])('drops a scenario with %s', (_, patch) => {
+    const broken = { ...scenario, id: 'broken', ...(patch as object) };
+    expect(parseUrlState(`?scenario=${encode([broken, scenario])}`).scenarios).toEqual([scenario]);
+  });
+
+  it('keeps valid shocks and class overrides', () => {
+    const full: Scenario = { ...scenario, shocks: [{ date: '2024-03', kind: 'amount', value: -500 }], classOverrides: { RES: 2.5 } };
+    expect(parseUrlState(`?scenario=${encode([full])}`).scenarios).toEqual([full]);
+  });
+
+  it('ignores inherited property names as provider, method or dimension', () => {
+    const state = parseUrlState('?dataset=d1&provider=toString&method=constructor&by=valueOf,accountclass&f.__proto__=x');
+    expect(state).toEqual({ dataset: 'd1', segmentBy: ['accountclass'] });
+  });
+});
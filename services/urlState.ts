@@ -0,0 +1,135 @@
+import { DashboardUrlState, ForecastEngine, ForecastMethod, GapPolicy, Scenario, ScenarioShock, SegmentDimension, DimensionFilters } from '../types';
+import { DIMENSION_LABELS } from './segmentService';
+import { GAP_POLICIES } from './gapFillService';
+import { FORECAST_PROVIDERS } from './forecastProviders';
+import { FORECAST_METHOD_LABELS } from './statisticalService';
+
+// Query string <-> dashboard state, e.g.
+// ?dataset=…&by=accountclass&f.paymenttype=Cash&segment=Residential&horizon=12&provider=gemini&scenario=…
+// Unknown or malformed values are dropped so an old or hand-edited link still opens what it can.
+
+const FILTER_PREFIX = 'f.';
+
+// Own keys only: `in` would also accept inherited names such as "toString"
+const isKeyOf = (record: object, value: string): boolean => Object.keys(record).includes(value);
+const isDimension = (value: string): value is SegmentDimension => isKeyOf(DIMENSION_LABELS, value);
+const isEngine = (value: string): value is ForecastEngine => isKeyOf(FORECAST_PROVIDERS, value);
+const isMethod = (value: string): value is ForecastMethod => isKeyOf(FORECAST_METHOD_LABELS, value);
+
+// Scenarios travel as base64url-encoded JSON so a colleague sees the same overlays without having them saved
+const encodeScenarios = (scenarios: Scenario[]): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenarios));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isShock = (value: unknown): value is ScenarioShock =>
+  isRecord(value) &&
+  typeof value.date === 'string' &&
+  (value.kind === 'percent' || value.kind === 'amount') &&
+  isFiniteNumber(value.value);
+
+// Checked down to every shock and override: a malformed one would break the scenario chart
+const isScenario = (value: unknown): value is Scenario =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.growthPercent) &&
+  Array.isArray(value.shocks) && value.shocks.every(isShock) &&
+  isRecord(value.classOverrides) && Object.values(value.classOverrides).every(isFiniteNumber);
+
+const decodeScenarios = (text: string): Scenario[] | undefined => {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    const parsed = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+    return Array.isArray(parsed) ? parsed.filter(isScenario).map(s => ({ ...s, visible: true })) : undefined;
+  } catch (error) {
+    console.error("URL State Read Error:", error);
+    return undefined;
+  }
+};
+
+export const parseUrlState = (search: string): DashboardUrlState => {
+  const params = new URLSearchParams(search);
+  const state: DashboardUrlState = {};
+
+  const run = params.get('run');
+  if (run) state.run = run;
+  const dataset = params.get('dataset');
+  if (dataset) state.dataset = dataset;
+
+  const by = params.get('by')?.split(',').filter(isDimension);
+  if (by && by.length > 0) state.segmentBy = by;
+
+  const filters: DimensionFilters = {};
+  params.forEach((value, key) => {
+    const dim = key.slice(FILTER_PREFIX.length);
+    if (key.startsWith(FILTER_PREFIX) && isDimension(dim) && value) filters[dim] = value;
+  });
+  if (Object.keys(filters).length > 0) state.filters = filters;
+
+  const gapPolicy = params.get('gaps');
+  if (gapPolicy && GAP_POLICIES.includes(gapPolicy as GapPolicy)) state.gapPolicy = gapPolicy as GapPolicy;
+
+  const segment = params.get('segment');
+  if (segment) state.segment = segment;
+
+  const horizon = Number(params.get('horizon'));
+  if (Number.isInteger(horizon) && horizon > 0) state.horizon = horizon;
+
+  const provider = params.get('provider');
+  if (provider && isEngine(provider)) state.engine = provider;
+  const method = params.get('method');
+  if (method && isMethod(method)) state.method = method;
+
+  const scenarios = params.get('scenario');
+  if (scenarios) state.scenarios = decodeScenarios(scenarios);
+
+  return state;
+};
+
+export const toSearch = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams();
+  if (state.run) params.set('run', state.run);
+  if (state.dataset) params.set('dataset', state.dataset);
+  if (state.segmentBy && state.segmentBy.length > 0) params.set('by', state.segmentBy.join(','));
+  Object.entries(state.filters ?? {}).forEach(([dim, value]) => {
+    if (value) params.set(`${FILTER_PREFIX}${dim}`, value);
+  });
+  if (state.gapPolicy) params.set('gaps', state.gapPolicy);
+  if (state.segment) params.set('segment', state.segment);
+  if (state.horizon) params.set('horizon', String(state.horizon));
+  if (state.engine) params.set('provider', state.engine);
+  // Only the statistical engine is steered by a method
+  if (state.engine === 'statistical' && state.method && state.method !== 'auto') params.set('method', state.method);
+  if (state.scenarios && state.scenarios.length > 0) params.set('scenario', encodeScenarios(state.scenarios));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Mirrors the dashboard in the address bar. Moving to another segment or run adds a history
+ * entry so back/forward step between them; any other change rewrites the current entry.
+ */
+export const syncUrlState = (state: DashboardUrlState): void => {
+  const search = toSearch(state);
+  if (search === window.location.search) return;
+
+  const current = parseUrlState(window.location.search);
+  const isNavigation = current.segment !== undefined && (current.segment !== state.segment || current.run !== state.run);
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (isNavigation) {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+};
+
+export const clearUrlState = (): void => {
+  if (window.location.search) window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+};
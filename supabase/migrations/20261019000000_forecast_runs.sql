@@ -0,0 +1,49 @@
+-- Datasets (parsed aggregates of an upload) and the forecast runs computed from them.
+-- Apply with `supabase db reset` on the local stack or `supabase db push` on a hosted project.
+
+create table if not exists public.datasets (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  file_name text not null,
+  dimensions jsonb not null,
+  dimension_values jsonb not null,
+  facts jsonb not null,
+  quality jsonb not null
+);
+
+create table if not exists public.forecast_runs (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  dataset_id uuid references public.datasets (id) on delete cascade,
+  file_name text not null,
+  segment text not null,
+  segment_name text not null,
+  segment_by jsonb not null,
+  filters jsonb not null,
+  gap_policy text not null,
+  engine text not null,
+  model text not null,
+  method text not null,
+  options jsonb not null,
+  outlier_method text not null,
+  outlier_decisions jsonb not null,
+  history jsonb not null,
+  result jsonb not null,
+  run_key text not null, -- Inputs of the run (services/runKey.ts); a re-run replaces the earlier row
+  horizon integer not null,
+  total numeric not null,
+  forecast_start text, -- First and last forecast month (YYYY-MM), to find runs a later upload can score
+  forecast_end text
+);
+
+create index if not exists forecast_runs_created_at_idx on public.forecast_runs (created_at desc);
+create index if not exists forecast_runs_segment_window_idx on public.forecast_runs (segment, forecast_start, forecast_end);
+create unique index if not exists forecast_runs_dataset_run_key_idx on public.forecast_runs (dataset_id, run_key);
+
+-- Signed-in users only. The anon key ships in the client bundle, so anon access is granted
+-- solely by supabase/seed.sql, which the local stack applies and `supabase db push` does not.
+alter table public.datasets enable row level security;
+alter table public.forecast_runs enable row level security;
+
+create policy "authenticated full access" on public.datasets for all to authenticated using (true) with check (true);
+create policy "authenticated full access" on public.forecast_runs for all to authenticated using (true) with check (true);
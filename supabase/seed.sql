@@ -0,0 +1,7 @@
+-- Local development only: `supabase start` / `supabase db reset` run this after the migrations.
+-- The app has no sign-in and talks to Supabase with the anon key, so the local stack opens both
+-- tables to anon. Never apply this to a hosted project: anyone with the anon key could read and
+-- delete every stored billing aggregate.
+
+create policy "anon full access (local dev)" on public.datasets for all to anon using (true) with check (true);
+create policy "anon full access (local dev)" on public.forecast_runs for all to anon using (true) with check (true);
@@ -16,30 +16,412 @@ export interface CSVRow {
 export interface MonthlyData {
   date: string; // Format: YYYY-MM
   amount: number;
+  filled?: boolean; // No source data for this month; amount comes from the gap policy
+  missing?: boolean; // 'mark-as-missing' policy: amount is only a placeholder
+  adjusted?: boolean; // Outlier replaced before forecasting
+}
+
+// How months without source data are valued when building continuous calendars
+export type GapPolicy = 'zero-fill' | 'carry-forward' | 'interpolate' | 'mark-as-missing';
+
+// CSV columns that can be used as a segmentation key
+export type SegmentDimension = 'accountclass' | 'paymenttype' | 'docType' | 'ratecat' | 'trsg' | 'mru' | 'bacode';
+
+// Drill-down: restrict the dataset to a single value per dimension
+export type DimensionFilters = Partial<Record<SegmentDimension, string>>;
+
+// Amount pre-aggregated per (month, dimension values) so segments can be regrouped without re-reading the file
+export interface FactRow {
+  date: string;
+  amount: number;
+  dims: Partial<Record<SegmentDimension, string>>;
+  dueDate?: string; // duedatefirst as YYYY-MM-DD, when the file has it
 }
 
 export interface ParsedDataSet {
-  totalByDate: MonthlyData[];
-  byClass: Record<string, MonthlyData[]>; // Aggregated data: { "Class A": [{date: '2024-01', amount: 1000}, ...] }
-  availableClasses: string[];
+  totalByDate: MonthlyData[]; // Total of the (filtered) portfolio
+  byClass: Record<string, MonthlyData[]>; // Aggregated per segment of the active key: { "RES × A1": [{date: '2024-01', amount: 1000}, ...] }
+  availableClasses: string[]; // Segment names of the active key
+  segmentBy: SegmentDimension[]; // Active segmentation key (combination of dimensions)
+  filters: DimensionFilters;
+  gapPolicy: GapPolicy;
+  dimensions: SegmentDimension[]; // Dimension columns present in the source file
+  dimensionValues: Partial<Record<SegmentDimension, string[]>>;
+  facts: FactRow[];
+  quality: DataQualityReport; // Built once at parse time; unaffected by regrouping
+}
+
+// A forecast month with optional prediction interval bounds
+export interface ForecastPoint extends MonthlyData {
+  lower80?: number;
+  upper80?: number;
+  lower95?: number;
+  upper95?: number;
 }
 
 export interface ForecastResult {
-  forecast: MonthlyData[];
+  forecast: ForecastPoint[];
   reasoning: string;
   trend: string;
+  fallback?: ForecastFallback; // Set when the chosen AI provider's answer was unusable
+  cachedAt?: string; // ISO timestamp, set when served from the forecast cache
+}
+
+export interface ForecastFallback {
+  from: ForecastEngine;
+  reason: string;
 }
 
 export interface ChartDataPoint {
   date: string;
   actual: number | null;
   forecast: number | null;
+  range80: [number, number] | null; // [lower, upper] band for shaded area
+  range95: [number, number] | null;
+  filled?: boolean; // Historical month produced by the gap policy
+  missing?: boolean; // Historical month without a value ('mark-as-missing')
+  outlier?: boolean; // Flagged by the outlier detector
+  adjusted?: number | null; // Value the forecaster used instead of the actual
+  scenarios?: Record<string, number>; // Scenario id -> what-if forecast
 }
 
 export enum AppState {
   IDLE = 'IDLE',
+  MAPPING = 'MAPPING',
   PARSING = 'PARSING',
+  REVIEW = 'REVIEW', // Data quality report shown before forecasting
   ANALYZING = 'ANALYZING',
+  RETRYING = 'RETRYING', // Forecast request failed transiently and is waiting to be retried
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
 }
+
+export type ForecastEngine = 'gemini' | 'openai-compatible' | 'statistical';
+
+export type ForecastMethod =
+  | 'auto'
+  | 'seasonal-naive'
+  | 'holt-winters-additive'
+  | 'holt-winters-multiplicative'
+  | 'linear-trend'
+  | 'weighted-moving-average';
+
+export interface AccuracyMetrics {
+  mape: number | null; // % (null when every actual is zero)
+  smape: number | null; // %
+  mae: number;
+  rmse: number;
+  bias: number; // Mean (forecast - actual); positive = over-forecasting
+  count: number; // Number of forecast/actual pairs scored
+}
+
+export interface BacktestFold {
+  origin: string; // Last month of the training window (YYYY-MM)
+  actual: MonthlyData[];
+  predicted: MonthlyData[];
+}
+
+export interface BacktestResult {
+  label: string; // Method / engine being evaluated
+  folds: BacktestFold[];
+  metrics: AccuracyMetrics;
+}
+
+export interface ForecastOptions {
+  horizon: number; // Months to forecast ahead (1–24)
+  historyWindow: number; // Most recent months used for training
+  minHistory: number; // Minimum months of history required to forecast
+}
+
+// A forecasting backend selectable at runtime; every provider returns the same ForecastResult
+export interface ForecastProvider {
+  id: ForecastEngine;
+  label: string;
+  model: string; // Model or method family shown next to the insight
+  kind: 'llm' | 'statistical';
+  concurrency: number; // Parallel requests for "Forecast All Segments"
+  isAvailable: () => boolean;
+  unavailableReason: string;
+  forecast: (history: MonthlyData[], segmentName: string, options: ForecastOptions, method: ForecastMethod, control?: ForecastRequestControl) => Promise<ForecastResult>;
+}
+
+export interface RetryState {
+  attempt: number; // Attempt about to be made, starting at 2
+  maxAttempts: number;
+  delayMs: number; // Backoff before that attempt
+  reason: string; // Why the previous attempt failed
+}
+
+export interface ForecastRequestControl {
+  signal?: AbortSignal; // Aborted when the request is superseded or cancelled
+  onRetry?: (state: RetryState) => void;
+}
+
+export interface SegmentForecastSummary {
+  segment: string;
+  status: 'success' | 'error';
+  result: ForecastResult | null;
+  forecastTotal: number | null;
+  trend: string | null;
+  growthVsLastYear: number | null; // Ratio vs the same months one year earlier (0.05 = +5%)
+  error?: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+export type ReconciliationMethod = 'bottom-up' | 'top-down' | 'mint';
+
+export interface ReconciledForecast {
+  method: ReconciliationMethod;
+  total: ForecastPoint[];
+  byClass: Record<string, ForecastPoint[]>; // Sums to 'total' month by month
+}
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export interface AgingSnapshot {
+  asOf: string; // YYYY-MM-DD
+  total: AgingBuckets;
+  bySegment: Record<string, AgingBuckets>;
+}
+
+export interface AgingTrendPoint {
+  date: string; // Bill period (YYYY-MM), aged as of its last day
+  buckets: AgingBuckets;
+}
+
+export interface AgingRollRate {
+  from: AgingBucket;
+  to: AgingBucket;
+  rate: number; // Share of 'from' that shows up in 'to' one period later
+}
+
+export interface AgingRollForward {
+  rollRates: AgingRollRate[];
+  forecast: AgingTrendPoint[];
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+// CSVRow fields the user can assign to a source column
+export type MappableField = 'billPeriod' | 'amount' | 'duedatefirst' | SegmentDimension;
+
+// Field -> zero-based column index in the source file
+export type ColumnMapping = Partial<Record<MappableField, number>>;
+
+export interface CSVPreview {
+  headers: string[];
+  rows: string[][]; // First data rows, for the mapping wizard
+  signature: string; // Normalized header list, used to remember mappings per export layout
+  delimiter: string;
+  encoding: string;
+}
+
+// Why a data row was skipped during parsing
+export type RejectionReason = 'short-row' | 'missing-date' | 'invalid-date' | 'missing-amount' | 'invalid-amount';
+
+// Rejected rows are excluded; duplicate and negative-amount rows are flagged but still aggregated
+export type RowIssueKind = RejectionReason | 'duplicate' | 'negative-amount';
+
+export interface RowIssue {
+  line: number; // 1-based physical line in the source file
+  kind: RowIssueKind;
+  detail: string;
+}
+
+// Consecutive months with no data between the first and last bill period
+export interface MonthGap {
+  segment: string;
+  from: string; // First missing month (YYYY-MM)
+  to: string; // Last missing month (YYYY-MM)
+  months: number;
+}
+
+export interface DataQualityReport {
+  totalRows: number; // Non-blank data rows (header excluded)
+  acceptedRows: number;
+  rejectedCounts: Record<RejectionReason, number>;
+  duplicateRows: number;
+  negativeRows: number;
+  negativeTotal: number;
+  issues: RowIssue[]; // Capped; see issuesTruncated
+  issuesTruncated: boolean;
+  gaps: MonthGap[];
+}
+
+export type DecompositionMethod = 'stl' | 'classical';
+
+export interface SeriesDecomposition {
+  trend: number[];
+  seasonal: number[];
+  remainder: number[];
+}
+
+export type OutlierMethod = 'none' | 'iqr' | 'hampel' | 'stl';
+
+export interface OutlierFlag {
+  date: string;
+  actual: number;
+  expected: number; // Suggested replacement
+  score: number; // Deviation relative to the detector's threshold (> 1 = outlier)
+}
+
+// Per flagged month: absent = accept the suggestion, null = keep the actual, number = override
+export type OutlierDecisions = Record<string, number | null>;
+
+// One-off adjustment to a single forecast month
+export interface ScenarioShock {
+  date: string; // YYYY-MM
+  kind: 'percent' | 'amount';
+  value: number; // Percent change, or amount added (negative to subtract)
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  growthPercent: number; // Uplift applied to every forecast month
+  shocks: ScenarioShock[];
+  classOverrides: Record<string, number>; // Segment -> growth percent used instead of growthPercent
+  visible: boolean; // Overlaid on the forecast chart
+}
+
+export interface ScenarioSeries {
+  scenario: Scenario;
+  forecast: MonthlyData[];
+  total: number;
+  classOverridesApplied: boolean; // False when overrides exist but no per-segment forecasts were available
+}
+
+// --- Persistence ---
+
+// Parsed aggregates of one upload, enough to regroup and forecast again without the file
+export interface StoredDataset {
+  id: string;
+  fileName: string;
+  createdAt: string; // ISO timestamp
+  dimensions: SegmentDimension[];
+  dimensionValues: Partial<Record<SegmentDimension, string[]>>;
+  facts: FactRow[];
+  quality: DataQualityReport;
+}
+
+// One forecast together with everything it was computed from
+export interface ForecastRun {
+  id: string;
+  datasetId: string | null; // Null when the dataset could not be stored
+  createdAt: string; // ISO timestamp
+  fileName: string;
+  segment: string; // 'ALL' or the segment name
+  segmentName: string; // Label sent to the provider
+  segmentBy: SegmentDimension[];
+  filters: DimensionFilters;
+  gapPolicy: GapPolicy;
+  engine: ForecastEngine;
+  model: string;
+  method: ForecastMethod;
+  options: ForecastOptions;
+  outlierMethod: OutlierMethod;
+  outlierDecisions: OutlierDecisions;
+  history: MonthlyData[]; // Series before outlier adjustment
+  result: ForecastResult;
+}
+
+export type ForecastRunSummary = Pick<ForecastRun, 'id' | 'datasetId' | 'createdAt' | 'fileName' | 'segment' | 'engine' | 'model' | 'method'> & {
+  horizon: number;
+  total: number; // Forecast total over the horizon
+};
+
+export type NewForecastRun = Omit<ForecastRun, 'id' | 'createdAt'>;
+
+// Stored run without its input series, as needed to score it against later uploads
+export type SegmentForecastRun = Omit<ForecastRun, 'history'>;
+
+// Inclusive span of months (YYYY-MM)
+export interface MonthRange {
+  from: string;
+  to: string;
+}
+
+export interface RunStore {
+  backend: 'supabase' | 'browser';
+  saveDataset: (dataset: Omit<StoredDataset, 'id' | 'createdAt'>) => Promise<string>;
+  loadDataset: (id: string) => Promise<StoredDataset | null>;
+  saveRuns: (runs: NewForecastRun[]) => Promise<void>;
+  listRuns: (limit: number) => Promise<ForecastRunSummary[]>;
+  loadRun: (id: string) => Promise<ForecastRun | null>;
+  // Newest first; only runs whose forecast window overlaps 'months', so the limit isn't spent on runs that can't be scored
+  listSegmentRuns: (segment: string, months: MonthRange, limit: number) => Promise<SegmentForecastRun[]>;
+  deleteRun: (id: string) => Promise<void>;
+}
+
+// --- Forecast vs actual tracking ---
+
+export interface RealizedPoint {
+  date: string;
+  step: number; // Months after the forecast origin (1 = first forecast month)
+  forecast: number;
+  actual: number;
+  error: number; // forecast - actual; positive = over-forecast
+  percentError: number | null; // error / |actual| × 100, null when actual is zero
+  cumulativeError: number; // Running sum of 'error' up to this month
+  cumulativePercent: number | null; // cumulativeError / running |actual| total × 100
+  withinInterval80: boolean | null; // Null when the run had no intervals
+}
+
+export interface RunAccuracy {
+  run: SegmentForecastRun;
+  origin: string; // Last month of history the forecast was made from
+  points: RealizedPoint[];
+  metrics: AccuracyMetrics;
+  drift: number | null; // Final cumulativePercent
+}
+
+// --- Export ---
+
+// History plus forecast of one segment, as written to CSV / XLSX
+export interface SegmentExport {
+  segment: string; // 'ALL' or the segment name
+  label: string; // Display name, e.g. "Total Portfolio"
+  history: MonthlyData[]; // Actuals as uploaded
+  adjusted?: MonthlyData[]; // Series the forecast was made from, when outliers were replaced
+  forecast: ForecastPoint[]; // Empty when the segment has not been forecast yet
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// Content of the printable forecast report
+export interface ForecastReport {
+  fileName: string;
+  segmentLabel: string;
+  engineLabel: string; // e.g. "Gemini AI · gemini-2.5-flash" or the statistical method
+  result: ForecastResult;
+  history: MonthlyData[];
+  chartSvg: string | null; // Serialized chart, when it is on screen
+  quality: DataQualityReport;
+}
+
+// --- URL State ---
+
+// Dashboard state carried in the query string so a view can be shared or reached with back/forward
+export interface DashboardUrlState {
+  run?: string; // Saved run id; takes precedence over the fields below
+  dataset?: string; // Stored dataset id
+  segmentBy?: SegmentDimension[];
+  filters?: DimensionFilters;
+  gapPolicy?: GapPolicy;
+  segment?: string; // 'ALL' or the segment name
+  horizon?: number;
+  engine?: ForecastEngine;
+  method?: ForecastMethod;
+  scenarios?: Scenario[]; // Scenarios overlaid on the chart, with their definitions
+}
@@ -14,6 +14,12 @@ interface ImportMeta {
 declare namespace NodeJS {
   interface ProcessEnv {
     API_KEY: string;
+    GEMINI_MODEL: string;
+    LLM_BASE_URL: string;
+    LLM_MODEL: string;
+    LLM_API_KEY: string;
+    SUPABASE_URL: string;
+    SUPABASE_ANON_KEY: string;
   }
 }
 
@@ -9,6 +9,14 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY || env.VITE_API_KEY),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ''),
+      // OpenAI-compatible endpoint, e.g. Ollama at http://localhost:11434/v1
+      'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+      'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || ''),
+      'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY || ''),
+      // Optional persistence; without these, runs are kept in the browser's IndexedDB
+      'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+      'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
     },
     server: {
       port: 3000,